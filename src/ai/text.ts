@@ -0,0 +1,107 @@
+/* ================================
+   CONFIG
+================================ */
+
+export const TEXT_MODEL = "@cf/meta/llama-3.1-8b-instruct-fp8";
+
+// Newest memories read by summarize and entity extraction, so the prompt
+// stays bounded however many memories a user has
+export const MAX_CONTEXT_MEMORIES = 100;
+
+const MERGE_PROMPT =
+  "You merge overlapping facts about a user into one canonical statement. Keep every distinct detail, drop repetition, and do not invent anything. Respond with the statement only.";
+
+/* ================================
+   GENERATION
+================================ */
+
+export async function generateText(
+  system: string,
+  prompt: string,
+  env: Env
+): Promise<string | undefined> {
+  const result = await env.AI.run(TEXT_MODEL, {
+    messages: [
+      { role: "system", content: system },
+      { role: "user", content: prompt },
+    ],
+  }) as { response?: string };
+
+  return result.response?.trim();
+}
+
+// Shared by consolidation and merge-on-write so both phrase merges the same way
+export async function mergeFacts(facts: string[], env: Env): Promise<string | undefined> {
+  const list = facts.map(f => `- ${f}`).join("\n");
+  return generateText(MERGE_PROMPT, `Merge these facts:\n${list}`, env);
+}
+
+/* ================================
+   MEMORY TASKS
+================================ */
+
+// The prompts behind memory_summarize, memory_extract_entities and memory_ask,
+// shared with their REST routes, plus the graph extraction run while indexing
+// and the conflict check run on write, plus conversation ingestion
+
+export async function summarizeMemories(contents: string[], env: Env): Promise<string | undefined> {
+  return generateText(
+    "You are a helpful assistant that summarizes user memories. Create a concise summary of the key facts and information.",
+    `Summarize these memories:\n${contents.join("\n")}`,
+    env
+  );
+}
+
+// Raw model output, which is asked to be JSON but is not guaranteed to be
+export async function extractEntities(contents: string[], env: Env): Promise<string | undefined> {
+  return generateText(
+    "You are an entity extraction specialist. Extract all named entities from the text. Format as JSON with categories: people, places, organizations, dates, and other.",
+    `Extract entities from:\n${contents.join("\n")}\n\nRespond only with valid JSON.`,
+    env
+  );
+}
+
+// Raw model output for the knowledge graph; parsed and normalized by db/graph.ts
+export async function extractGraph(content: string, env: Env): Promise<string | undefined> {
+  return generateText(
+    "You build a knowledge graph from a note about a user. List the named entities it mentions and the relations it states between them. Entity types: person, place, organization, date, other. Relations are short verbs or phrases such as works_with, lives_in, sibling_of, member_of. Only include what the note states. Respond only with valid JSON shaped like {\"entities\":[{\"name\":\"...\",\"type\":\"...\"}],\"relations\":[{\"source\":\"...\",\"relation\":\"...\",\"target\":\"...\"}]}.",
+    `Note:\n${content}`,
+    env
+  );
+}
+
+// Raw model output judging a new fact against numbered existing ones; parsed by db/conflicts.ts
+export async function classifyAgainstMemories(
+  content: string,
+  existing: string[],
+  env: Env
+): Promise<string | undefined> {
+  const list = existing.map((m, i) => `${i + 1}. ${m}`).join("\n");
+  return generateText(
+    "You compare a new fact about a user with facts already stored about them. For each numbered existing fact, decide whether the new fact is consistent with it (compatible or unrelated), contradicting (both cannot be true now) or refining (the new fact updates or adds detail to it). Respond only with valid JSON shaped like [{\"index\":1,\"relation\":\"consistent\",\"reason\":\"...\"}] with one short reason per fact.",
+    `New fact:\n${content}\n\nExisting facts:\n${list}`,
+    env
+  );
+}
+
+// Raw model output listing the facts worth remembering from a transcript; parsed by db/ingest.ts
+export async function extractConversationFacts(transcript: string, env: Env): Promise<string | undefined> {
+  return generateText(
+    "You extract memories about the user from a conversation between the user and an assistant. Write each fact as one short, self-contained statement that makes sense without the conversation, e.g. \"User's daughter is called Mia\". Only keep what is worth remembering in later conversations: preferences, personal details, plans, decisions and ongoing projects. Skip small talk, questions and anything the assistant said that the user did not confirm. For each fact suggest a tier (long for lasting facts, short for things that only matter for the next days), an importance from 0 to 1, and a source: user when the user stated it, assistant when the user confirmed something the assistant said. Respond only with valid JSON shaped like {\"facts\":[{\"content\":\"...\",\"tier\":\"long\",\"importance\":0.7,\"source\":\"user\"}]}, with an empty list when there is nothing to remember.",
+    `Conversation:\n${transcript}`,
+    env
+  );
+}
+
+export async function answerFromMemories(
+  question: string,
+  memories: Array<{ tier: string; content: string }>,
+  env: Env
+): Promise<string | undefined> {
+  const context = memories.map((m) => `[${m.tier}-term] ${m.content}`).join("\n");
+  return generateText(
+    "You are a helpful assistant that answers questions based on the user's stored memories. Use the provided context to give accurate answers. If the context doesn't contain relevant information, say so.",
+    `Context from memories:\n${context}\n\nQuestion: ${question}`,
+    env
+  );
+}
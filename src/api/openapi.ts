@@ -0,0 +1,281 @@
+import { z } from "zod";
+import type { ApiKeyScope } from "../db/db";
+import { memoryConfigOverridesSchema } from "../db/settings";
+import { TRANSFER_CONTENT_TYPES, MAX_IMPORT_BYTES } from "../db/transfer";
+import {
+  apiKeyCreateBody,
+  quotaUpdateBody,
+  memoryIdParams,
+  memoryListQuery,
+  trashQuery,
+  exportQuery,
+  importQuery,
+  memoryWriteShape,
+  memoryBatchWriteShape,
+  memoryIngestShape,
+  memorySearchShape,
+  memoryUpdateShape,
+  memoryRevertShape,
+  memoryClearShape,
+  memoryTagsShape,
+  memorySummarizeShape,
+  memoryEntitiesShape,
+  memoryAskShape,
+  memoryConsolidateShape,
+  memoryReconcileShape,
+  errorResponse,
+  okResponse,
+  memoryResponse,
+  memoryListResponse,
+  memorySearchResponse,
+  memoryWriteResponse,
+  memoryBatchWriteResponse,
+  memoryIngestResponse,
+  tagsResponse,
+  importResponse,
+  entityParams,
+  entityLookupQuery,
+  entityMemoriesQuery,
+  entityNeighboursQuery,
+  entitiesResponse,
+  entityResponse,
+  entityMemoriesResponse,
+  entityNeighboursResponse,
+  memoryLinkBody,
+  memoryUnlinkBody,
+  memoryLinksResponse,
+  conflictsQuery,
+  conflictParams,
+  conflictResolveBody,
+  conflictsResponse,
+  memoryDocumentAddShape,
+  documentParams,
+  documentListQuery,
+  documentCreateResponse,
+  documentsResponse,
+  documentResponse,
+} from "./schemas";
+
+/* ================================
+   TYPES
+================================ */
+
+type HttpMethod = "get" | "post" | "put" | "delete";
+
+type Operation = {
+  method: HttpMethod;
+  // Hono path, e.g. /:userId/memory/:memoryId
+  path: string;
+  summary: string;
+  tag: string;
+  scope: ApiKeyScope;
+  params?: z.ZodObject;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  // Content types the body may be sent as (default application/json)
+  bodyTypes?: string[];
+  response?: z.ZodType;
+  // Content types of a non-JSON success response
+  responseTypes?: string[];
+  status?: number;
+};
+
+/* ================================
+   OPERATIONS
+================================ */
+
+// Every REST route in index.ts, with the schemas it validates against.
+// New routes add a row here so the spec stays complete.
+
+const TRANSFER_TYPES = Object.values(TRANSFER_CONTENT_TYPES).map((t) => t.split(";")[0]);
+
+const OPERATIONS: Operation[] = [
+  // API keys
+  { method: "post", path: "/:userId/keys", summary: "Create an API key", tag: "Keys", scope: "admin", body: apiKeyCreateBody, status: 201 },
+  { method: "get", path: "/:userId/keys", summary: "List API keys", tag: "Keys", scope: "admin" },
+  { method: "delete", path: "/:userId/keys/:keyId", summary: "Revoke an API key", tag: "Keys", scope: "admin" },
+
+  // Account
+  { method: "get", path: "/:userId/quota", summary: "Get the memory quota and usage", tag: "Account", scope: "read" },
+  { method: "put", path: "/:userId/quota", summary: "Set the memory quota (operator token only)", tag: "Account", scope: "admin", body: quotaUpdateBody },
+  { method: "get", path: "/:userId/settings", summary: "Get memory settings", tag: "Account", scope: "read" },
+  { method: "put", path: "/:userId/settings", summary: "Override memory settings", tag: "Account", scope: "write", body: memoryConfigOverridesSchema },
+  { method: "post", path: "/:userId/reconcile", summary: "Compare D1 with the vector index and optionally repair it", tag: "Account", scope: "admin", body: z.object(memoryReconcileShape) },
+
+  // Memories
+  { method: "post", path: "/:userId/memory/write", summary: "Store a memory", tag: "Memories", scope: "write", body: z.object(memoryWriteShape), response: memoryWriteResponse },
+  { method: "post", path: "/:userId/memory/batch", summary: "Store several memories at once", tag: "Memories", scope: "write", body: z.object(memoryBatchWriteShape), response: memoryBatchWriteResponse, status: 201 },
+  { method: "post", path: "/:userId/memory/ingest", summary: "Extract and store memories from a conversation", tag: "Memories", scope: "write", body: z.object(memoryIngestShape), response: memoryIngestResponse, status: 201 },
+  { method: "get", path: "/:userId/memory", summary: "List memories", tag: "Memories", scope: "read", query: memoryListQuery, response: memoryListResponse },
+  { method: "get", path: "/:userId/memory/:memoryId", summary: "Get a memory", tag: "Memories", scope: "read", params: memoryIdParams, response: memoryResponse },
+  { method: "put", path: "/:userId/memory/:memoryId", summary: "Update the content of a memory", tag: "Memories", scope: "write", params: memoryIdParams, body: z.object(memoryUpdateShape) },
+  { method: "delete", path: "/:userId/memory/:memoryId", summary: "Move a memory to the trash", tag: "Memories", scope: "write", params: memoryIdParams },
+  { method: "get", path: "/:userId/memory/:memoryId/history", summary: "List earlier versions of a memory", tag: "Memories", scope: "read", params: memoryIdParams },
+  { method: "post", path: "/:userId/memory/:memoryId/revert", summary: "Restore an earlier version of a memory", tag: "Memories", scope: "write", params: memoryIdParams, body: z.object(memoryRevertShape) },
+  { method: "post", path: "/:userId/memory/search", summary: "Search memories", tag: "Memories", scope: "read", body: z.object(memorySearchShape), response: memorySearchResponse },
+  { method: "post", path: "/:userId/memory/clear", summary: "Move every memory, or one tier, to the trash", tag: "Memories", scope: "write", body: z.object(memoryClearShape) },
+  { method: "get", path: "/:userId/stats", summary: "Count memories per tier", tag: "Memories", scope: "read" },
+
+  // Tags
+  { method: "get", path: "/:userId/tags", summary: "List tags with their memory counts", tag: "Tags", scope: "read" },
+  { method: "post", path: "/:userId/memory/:memoryId/tags", summary: "Add tags to a memory", tag: "Tags", scope: "write", params: memoryIdParams, body: z.object(memoryTagsShape), response: tagsResponse },
+  { method: "delete", path: "/:userId/memory/:memoryId/tags", summary: "Remove tags from a memory", tag: "Tags", scope: "write", params: memoryIdParams, body: z.object(memoryTagsShape), response: tagsResponse },
+
+  // Links
+  { method: "get", path: "/:userId/memory/:memoryId/links", summary: "Get a memory with the memories linked to it", tag: "Links", scope: "read", params: memoryIdParams, response: memoryLinksResponse },
+  { method: "post", path: "/:userId/memory/:memoryId/links", summary: "Link a memory to another", tag: "Links", scope: "write", params: memoryIdParams, body: memoryLinkBody, status: 201 },
+  { method: "delete", path: "/:userId/memory/:memoryId/links", summary: "Remove links between two memories", tag: "Links", scope: "write", params: memoryIdParams, body: memoryUnlinkBody },
+
+  // Documents
+  { method: "post", path: "/:userId/documents", summary: "Store a long document as chunk memories", tag: "Documents", scope: "write", body: z.object(memoryDocumentAddShape), response: documentCreateResponse, status: 201 },
+  { method: "get", path: "/:userId/documents", summary: "List documents", tag: "Documents", scope: "read", query: documentListQuery, response: documentsResponse },
+  { method: "get", path: "/:userId/documents/:documentId", summary: "Get a document with its chunks", tag: "Documents", scope: "read", params: documentParams, response: documentResponse },
+  { method: "delete", path: "/:userId/documents/:documentId", summary: "Delete a document and trash its chunks", tag: "Documents", scope: "write", params: documentParams },
+
+  // Conflicts
+  { method: "get", path: "/:userId/conflicts", summary: "List conflicts between memories", tag: "Conflicts", scope: "read", query: conflictsQuery, response: conflictsResponse },
+  { method: "post", path: "/:userId/conflicts/:conflictId/resolve", summary: "Resolve a conflict", tag: "Conflicts", scope: "write", params: conflictParams, body: conflictResolveBody },
+
+  // AI
+  { method: "post", path: "/:userId/memory/summarize", summary: "Summarize memories", tag: "AI", scope: "read", body: z.object(memorySummarizeShape) },
+  { method: "post", path: "/:userId/memory/entities", summary: "Extract entities from memories", tag: "AI", scope: "read", body: z.object(memoryEntitiesShape) },
+  { method: "post", path: "/:userId/memory/ask", summary: "Answer a question from memories", tag: "AI", scope: "read", body: z.object(memoryAskShape) },
+  { method: "post", path: "/:userId/memory/consolidate", summary: "Merge clusters of similar memories", tag: "AI", scope: "write", body: z.object(memoryConsolidateShape) },
+
+  // Knowledge graph
+  { method: "get", path: "/:userId/entities", summary: "Find entities by name", tag: "Knowledge graph", scope: "read", query: entityLookupQuery, response: entitiesResponse },
+  { method: "get", path: "/:userId/entities/:entity", summary: "Get an entity by ID or name", tag: "Knowledge graph", scope: "read", params: entityParams, response: entityResponse },
+  { method: "get", path: "/:userId/entities/:entity/memories", summary: "List memories that mention an entity", tag: "Knowledge graph", scope: "read", params: entityParams, query: entityMemoriesQuery, response: entityMemoriesResponse },
+  { method: "get", path: "/:userId/entities/:entity/neighbours", summary: "Walk relations out from an entity", tag: "Knowledge graph", scope: "read", params: entityParams, query: entityNeighboursQuery, response: entityNeighboursResponse },
+
+  // Trash
+  { method: "get", path: "/:userId/trash", summary: "List trashed memories", tag: "Trash", scope: "read", query: trashQuery },
+  { method: "post", path: "/:userId/trash/restore", summary: "Restore everything in the trash", tag: "Trash", scope: "write" },
+  { method: "post", path: "/:userId/trash/:memoryId/restore", summary: "Restore a trashed memory", tag: "Trash", scope: "write", params: memoryIdParams },
+
+  // Transfer
+  { method: "get", path: "/:userId/export", summary: "Export every memory", tag: "Transfer", scope: "read", query: exportQuery, responseTypes: TRANSFER_TYPES },
+  { method: "post", path: "/:userId/import", summary: "Import exported memories", tag: "Transfer", scope: "write", query: importQuery, body: z.string().max(MAX_IMPORT_BYTES), bodyTypes: TRANSFER_TYPES, response: importResponse },
+];
+
+/* ================================
+   DOCUMENT
+================================ */
+
+function toJsonSchema(schema: z.ZodType, io: "input" | "output" = "input") {
+  const { $schema: _, ...json } = z.toJSONSchema(schema, {
+    target: "draft-2020-12",
+    io,
+    unrepresentable: "any",
+  });
+  return json;
+}
+
+// /:userId/memory/:memoryId -> /{userId}/memory/{memoryId}
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, "{$1}");
+}
+
+function parameters(op: Operation) {
+  const pathParams = [...op.path.matchAll(/:(\w+)/g)].map(([, name]) => {
+    const field = op.params?.shape[name] as z.ZodType | undefined;
+    return {
+      name,
+      in: "path",
+      required: true,
+      description: field?.description,
+      schema: field ? toJsonSchema(field) : { type: "string" },
+    };
+  });
+
+  const queryParams = Object.entries(op.query?.shape ?? {}).map(([name, field]) => {
+    const schema = field as z.ZodType;
+    return {
+      name,
+      in: "query",
+      required: !schema.safeParse(undefined).success,
+      description: schema.description,
+      schema: toJsonSchema(schema),
+    };
+  });
+
+  return [...pathParams, ...queryParams];
+}
+
+function operationObject(op: Operation) {
+  const status = String(op.status ?? 200);
+  const success = op.responseTypes
+    ? { content: Object.fromEntries(op.responseTypes.map((t) => [t, { schema: { type: "string" } }])) }
+    : { content: { "application/json": { schema: toJsonSchema(op.response ?? okResponse, "output") } } };
+
+  return {
+    summary: op.summary,
+    description: `Requires the \`${op.scope}\` scope.`,
+    tags: [op.tag],
+    operationId: `${op.method}${op.path.replace(/\/:?(\w)/g, (_, c: string) => c.toUpperCase())}`,
+    parameters: parameters(op),
+    requestBody: op.body && {
+      required: true,
+      content: Object.fromEntries(
+        (op.bodyTypes ?? ["application/json"]).map((t) => [t, { schema: toJsonSchema(op.body!) }])
+      ),
+    },
+    responses: {
+      [status]: { description: "Success", ...success },
+      "4XX": { $ref: "#/components/responses/Error" },
+      "5XX": { $ref: "#/components/responses/Error" },
+    },
+  };
+}
+
+export function buildOpenApiDocument(env: Env) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of OPERATIONS) {
+    const path = toOpenApiPath(op.path);
+    paths[path] = { ...paths[path], [op.method]: operationObject(op) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "MCP Memory REST API",
+      version: "1.0.0",
+      description: "REST mirror of the MCP memory tools. Every route acts on the user in the path, who must own the credential.",
+    },
+    servers: [{ url: env.PUBLIC_URL }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "API key or operator ADMIN_TOKEN; OAuth access tokens only work on the MCP endpoint" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        Error: toJsonSchema(errorResponse, "output"),
+      },
+      responses: {
+        Error: {
+          description: "Error envelope",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+        },
+      },
+    },
+  };
+}
+
+/* ================================
+   DOCS PAGE
+================================ */
+
+export const DOCS_PAGE = `<!doctype html>
+<html>
+  <head>
+    <title>MCP Memory API</title>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+  </head>
+  <body>
+    <script id="api-reference" data-url="/openapi.json"></script>
+    <script src="https://cdn.jsdelivr.net/npm/@scalar/api-reference"></script>
+  </body>
+</html>`;
@@ -0,0 +1,485 @@
+import { z } from "zod";
+import { DUPLICATE_POLICIES } from "../db/write";
+import { SEARCH_MODES, MAX_DOCUMENT_CONTEXT } from "../db/vectorize";
+import { TRANSFER_FORMATS, IMPORT_DUPLICATE_POLICIES, MAX_IMPORT_BYTES } from "../db/transfer";
+import { CONVERSATION_ROLES } from "../db/ingest";
+import { memoryConfigOverridesSchema } from "../db/settings";
+import { API_KEY_SCOPES } from "../auth/auth";
+import { CONFLICT_RESOLUTIONS, LINK_TYPES, MEMORY_SORTS } from "../db/db";
+import { MAX_TRAVERSAL_DEPTH } from "../db/graph";
+import { MAX_DOCUMENT_CHARS } from "../db/documents";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const MAX_BATCH_WRITE = 50;
+
+/* ================================
+   FIELDS
+================================ */
+
+const tier = z.enum(["short", "long"]);
+const importance = z.number().min(0).max(1);
+const tags = z.array(z.string()).max(20);
+
+const isoDate = z.string().refine((s) => !Number.isNaN(Date.parse(s)), "Expected an ISO 8601 date");
+
+export const searchFiltersSchema = z.object({
+  source: z.string().optional().describe("Only memories from this source"),
+  minImportance: importance.optional().describe("Only memories with at least this importance"),
+  createdAfter: isoDate.optional().describe("Only memories created at or after this ISO 8601 date"),
+  createdBefore: isoDate.optional().describe("Only memories created before this ISO 8601 date"),
+  tags: tags.optional().describe("Only memories carrying all of these tags"),
+});
+
+/* ================================
+   TOOL INPUTS
+================================ */
+
+// Raw shapes, because MCP tools take a shape as inputSchema. REST routes wrap
+// the same shape in z.object, so a field validates identically over both.
+// Where a tool takes memoryId, the REST route reads it from the path instead.
+
+export const memoryWriteShape = {
+  content: z.string().min(1).describe("The information to store"),
+  tier: tier.describe("Memory tier"),
+  importance: importance.optional().describe("Importance score 0-1"),
+  source: z.string().optional().describe("Source of the memory"),
+  ttlSeconds: z.number().int().positive().optional().describe("Lifetime of a short-term memory in seconds (optional, ignored for long-term)"),
+  tags: tags.optional().describe("Tags to group the memory by (optional)"),
+  onDuplicate: z.enum(DUPLICATE_POLICIES).optional().describe("What to do with a near-duplicate: skip (default), insert or merge"),
+};
+
+export const memoryBatchWriteShape = {
+  memories: z.array(z.object({
+    content: z.string().min(1).describe("The information to store"),
+    tier: tier.describe("Memory tier"),
+    importance: importance.optional().describe("Importance score 0-1"),
+    source: z.string().optional().describe("Source of the memory"),
+    ttlSeconds: z.number().int().positive().optional().describe("Lifetime of a short-term memory in seconds (optional)"),
+    tags: tags.optional().describe("Tags to group the memory by (optional)"),
+  })).min(1).max(MAX_BATCH_WRITE).describe("Array of memories to store"),
+};
+
+export const memoryIngestShape = {
+  messages: z.array(z.object({
+    role: z.enum(CONVERSATION_ROLES).describe("Who sent the message"),
+    content: z.string().min(1).describe("Message text"),
+  })).min(1).max(500).describe("The conversation, oldest message first"),
+  source: z.string().optional().describe("Source stored on every memory (optional, defaults to conversation:user or conversation:assistant)"),
+  tags: tags.optional().describe("Tags added to every memory (optional)"),
+};
+
+export const memorySearchShape = {
+  query: z.string().min(1).describe("Search query"),
+  tier: tier.optional().describe("Memory tier (optional, searches both when omitted)"),
+  limit: z.number().int().min(1).max(50).optional().describe("Max results to return"),
+  mode: z.enum(SEARCH_MODES).optional().describe("Search mode (default hybrid)"),
+  filters: searchFiltersSchema.optional().describe("Metadata filters applied before ranking (optional)"),
+  explain: z.boolean().optional().describe("Include a per-result score breakdown"),
+  documentContext: z.number().int().min(0).max(MAX_DOCUMENT_CONTEXT).optional().describe(`For document results, chunks to include either side of each matched chunk, 0 to ${MAX_DOCUMENT_CONTEXT} (default 0)`),
+  fullDocument: z.boolean().optional().describe("For document results, include the full document text"),
+};
+
+export const memoryListShape = {
+  tier: tier.optional().describe("Filter by tier (optional)"),
+  tags: tags.optional().describe("Only memories carrying all of these tags (optional)"),
+  sort: z.enum(MEMORY_SORTS).optional().describe("Order: newest (default), oldest, importance or updated"),
+  limit: z.number().int().min(1).max(100).optional().describe("Page size (default 50)"),
+  cursor: z.string().optional().describe("nextCursor from the previous page, listed with the same sort"),
+};
+
+export const memoryUpdateShape = {
+  content: z.string().min(1).describe("New content for the memory"),
+};
+
+export const memoryClearShape = {
+  tier: tier.optional().describe("Only clear memories of this tier (optional)"),
+  confirm: z.boolean().describe("Must be true to confirm deletion"),
+};
+
+export const memorySummarizeShape = {
+  tier: tier.optional().describe("Memory tier to summarize (optional)"),
+  tags: tags.optional().describe("Only summarize memories carrying all of these tags (optional)"),
+};
+
+export const memoryEntitiesShape = {
+  tier: tier.optional().describe("Memory tier to analyze (optional)"),
+};
+
+export const memoryAskShape = {
+  question: z.string().min(1).describe("Question to ask about memories"),
+  tier: tier.optional().describe("Memory tier to search (optional)"),
+};
+
+export const memoryConsolidateShape = {
+  minClusterSize: z.number().int().min(2).max(20).optional().describe("Minimum number of similar memories needed to consolidate (default 2)"),
+  dryRun: z.boolean().optional().describe("Preview merges without writing or deleting anything"),
+};
+
+export const memoryTagsShape = {
+  tags: z.array(z.string()).min(1).max(20).describe("Tags to add or remove"),
+};
+
+export const memorySettingsShape = {
+  settings: memoryConfigOverridesSchema.optional().describe("Fields to override (optional)"),
+  reset: z.boolean().optional().describe("Clear every override"),
+};
+
+export const memoryReconcileShape = {
+  repair: z.boolean().optional().describe("Re-index missing or stale entries and delete orphaned ones"),
+  cursor: z.string().optional().describe("nextCursor from a run that stopped before the last memory"),
+};
+
+export const memoryRevertShape = {
+  version: z.number().int().min(1).describe("Version number to restore"),
+};
+
+export const memoryTrashShape = {
+  limit: z.number().int().min(1).max(100).optional().describe("Maximum number of trashed memories to list (default 50)"),
+};
+
+export const memoryExportShape = {
+  format: z.enum(TRANSFER_FORMATS).optional().describe("Export format: ndjson (default), json or markdown"),
+};
+
+export const memoryImportShape = {
+  data: z.string().max(MAX_IMPORT_BYTES).describe("Exported memories"),
+  format: z.enum(TRANSFER_FORMATS).optional().describe("Format of data: ndjson (default), json or markdown"),
+  onDuplicate: z.enum(IMPORT_DUPLICATE_POLICIES).optional().describe("What to do with a near-duplicate: skip (default) or insert"),
+};
+
+export const memoryLinkShape = {
+  sourceId: z.string().min(1).describe("ID of the memory the link starts from; for supersedes, the newer memory"),
+  targetId: z.string().min(1).describe("ID of the memory the link points to; for supersedes, the outdated memory"),
+  type: z.enum(LINK_TYPES).describe("supersedes, contradicts or related_to"),
+};
+
+export const memoryUnlinkShape = {
+  sourceId: memoryLinkShape.sourceId,
+  targetId: memoryLinkShape.targetId,
+  type: z.enum(LINK_TYPES).optional().describe("Only remove links of this type (optional, removes every link between the two when omitted)"),
+};
+
+export const memoryConflictsShape = {
+  action: z.enum(["list", "resolve"]).describe("list open conflicts, or resolve one"),
+  conflictId: z.string().min(1).optional().describe("Conflict to resolve (required for resolve)"),
+  resolution: z.enum(CONFLICT_RESOLUTIONS).optional().describe("keep_new, keep_existing, keep_both or merge (required for resolve)"),
+  status: z.enum(["open", "resolved"]).optional().describe("Conflicts to list (default open)"),
+  limit: z.number().int().min(1).max(100).optional().describe("Maximum number of conflicts to list (default 50)"),
+};
+
+export const memoryDocumentAddShape = {
+  title: z.string().trim().min(1).max(200).describe("Title of the document"),
+  content: z.string().trim().min(1).max(MAX_DOCUMENT_CHARS).describe(`Full text of the document, at most ${MAX_DOCUMENT_CHARS} characters`),
+  source: z.string().optional().describe("Source stored on the document and its chunks (optional, default document)"),
+  importance: importance.optional().describe("Importance score 0-1 of every chunk"),
+  tags: tags.optional().describe("Tags added to every chunk (optional)"),
+};
+
+export const memoryDocumentShape = {
+  documentId: z.string().min(1).describe("ID of the document"),
+};
+
+export const memoryDocumentListShape = {
+  limit: z.number().int().min(1).max(100).optional().describe("Maximum number of documents (default 50)"),
+};
+
+export const memoryEntityLookupShape = {
+  query: z.string().min(1).describe("Entity name, or part of one"),
+  limit: z.number().int().min(1).max(50).optional().describe("Maximum number of entities (default 20)"),
+};
+
+export const memoryEntityMemoriesShape = {
+  entity: z.string().min(1).describe("Entity ID or name"),
+  limit: z.number().int().min(1).max(100).optional().describe("Maximum number of memories (default 50)"),
+};
+
+export const memoryEntityNeighboursShape = {
+  entity: z.string().min(1).describe("Entity ID or name"),
+  relation: z.string().optional().describe("Only follow relations of this type, e.g. works_with (optional)"),
+  depth: z.number().int().min(1).max(MAX_TRAVERSAL_DEPTH).optional().describe(`Hops to follow, 1 to ${MAX_TRAVERSAL_DEPTH} (default 1)`),
+};
+
+/* ================================
+   REST REQUESTS
+================================ */
+
+export const memoryIdParams = z.object({
+  memoryId: z.string().min(1).describe("ID of the memory"),
+});
+
+// Query strings cannot carry arrays or numbers, so these parse them from text
+const commaList = z.string().transform((s) => s.split(",").map((t) => t.trim()).filter(Boolean));
+
+export const memoryListQuery = z.object({
+  tier: memoryListShape.tier,
+  tags: commaList.pipe(tags).optional().describe("Comma separated; only memories carrying all of these tags"),
+  sort: memoryListShape.sort,
+  limit: z.coerce.number().int().min(1).max(100).optional().describe("Page size (default 50)"),
+  cursor: memoryListShape.cursor,
+});
+
+export const documentParams = z.object(memoryDocumentShape);
+
+export const documentListQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().describe("Maximum number of documents (default 50)"),
+});
+
+export const trashQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().describe("Maximum number of trashed memories to list (default 50)"),
+});
+
+export const exportQuery = z.object(memoryExportShape);
+
+export const importQuery = z.object({
+  format: memoryImportShape.format.describe("Format of the body; defaults to the one named by Content-Type, then ndjson"),
+  onDuplicate: memoryImportShape.onDuplicate,
+});
+
+// The path names the source memory
+export const memoryLinkBody = z.object({
+  targetId: memoryLinkShape.targetId,
+  type: memoryLinkShape.type,
+});
+
+export const memoryUnlinkBody = z.object({
+  targetId: memoryUnlinkShape.targetId,
+  type: memoryUnlinkShape.type,
+});
+
+export const conflictsQuery = z.object({
+  status: memoryConflictsShape.status,
+  limit: z.coerce.number().int().min(1).max(100).optional().describe("Maximum number of conflicts (default 50)"),
+});
+
+export const conflictParams = z.object({
+  conflictId: z.string().min(1).describe("ID of the conflict"),
+});
+
+export const conflictResolveBody = z.object({
+  resolution: z.enum(CONFLICT_RESOLUTIONS).describe("keep_new, keep_existing, keep_both or merge"),
+});
+
+export const entityParams = z.object({
+  entity: memoryEntityMemoriesShape.entity,
+});
+
+export const entityLookupQuery = z.object({
+  query: memoryEntityLookupShape.query,
+  limit: z.coerce.number().int().min(1).max(50).optional().describe("Maximum number of entities (default 20)"),
+});
+
+export const entityMemoriesQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional().describe("Maximum number of memories (default 50)"),
+});
+
+export const entityNeighboursQuery = z.object({
+  relation: memoryEntityNeighboursShape.relation,
+  depth: z.coerce.number().int().min(1).max(MAX_TRAVERSAL_DEPTH).optional().describe(`Hops to follow, 1 to ${MAX_TRAVERSAL_DEPTH} (default 1)`),
+});
+
+export const apiKeyCreateBody = z.object({
+  name: z.string().min(1).max(100).optional().describe("Label for the key (default \"default\")"),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1).optional().describe("Scopes to grant (default read and write)"),
+});
+
+export const quotaUpdateBody = z.object({
+  maxMemories: z.number().int().min(0).nullable().describe("New cap, or null to fall back to MAX_MEMORIES_PER_USER"),
+});
+
+/* ================================
+   REST RESPONSES
+================================ */
+
+// Only used to document responses in the OpenAPI spec
+
+export const errorResponse = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional()
+    .describe("Field-level problems, for validation errors"),
+});
+
+export const memoryJson = z.object({
+  id: z.string(),
+  tier,
+  content: z.string(),
+  importance: z.number(),
+  source: z.string().nullable(),
+  tags: z.array(z.string()),
+  createdAt: z.number().describe("Epoch milliseconds"),
+  updatedAt: z.number().nullable(),
+  updatedBy: z.string().nullable(),
+  expiresAt: z.number().nullable(),
+  accessCount: z.number(),
+  lastAccessedAt: z.number().nullable(),
+  indexStatus: z.enum(["pending", "indexed", "failed"]),
+});
+
+export const memoryResultJson = z.object({
+  id: z.string(),
+  content: z.string(),
+  score: z.number(),
+  tier,
+  breakdown: z.object({
+    semantic: z.number(),
+    recency: z.number(),
+    importance: z.number(),
+    access: z.number(),
+  }).optional().describe("Only present when explain is set"),
+  supersededBy: z.string().optional().describe("Set on a superseded memory that is still shown"),
+  supersedes: z.array(z.string()).optional().describe("Matched memories this one supersedes and stands in for"),
+  document: z.object({
+    id: z.string(),
+    title: z.string(),
+    chunkCount: z.number(),
+    matchedChunks: z.array(z.number()).describe("Indexes of the chunks that matched, best first"),
+    chunks: z.array(z.object({ index: z.number(), content: z.string() }))
+      .describe("Matched chunks plus documentContext chunks either side, in document order"),
+    content: z.string().optional().describe("Only present when fullDocument is set"),
+  }).optional().describe("Set when the memory is a document chunk; other matching chunks of the document are folded in"),
+});
+
+export const documentJson = z.object({
+  id: z.string(),
+  title: z.string(),
+  source: z.string().nullable(),
+  createdAt: z.number(),
+  chunkCount: z.number(),
+});
+
+const conflictMemoryJson = z.object({
+  id: z.string(),
+  tier: tier.nullable(),
+  content: z.string().nullable().describe("Null once the memory has been permanently deleted"),
+});
+
+export const conflictJson = z.object({
+  id: z.string(),
+  reason: z.string().nullable(),
+  status: z.enum(["open", "resolved"]),
+  resolution: z.enum(CONFLICT_RESOLUTIONS).nullable(),
+  createdAt: z.number(),
+  resolvedAt: z.number().nullable(),
+  resolvedBy: z.string().nullable(),
+  memory: conflictMemoryJson.describe("The memory whose write found the conflict"),
+  conflicting: conflictMemoryJson.describe("The existing memory it contradicts"),
+});
+
+export const entityJson = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  mentions: z.number().describe("Live memories that mention the entity"),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+});
+
+export const successResponse = <Shape extends z.ZodRawShape>(shape: Shape) =>
+  z.object({ success: z.literal(true), ...shape });
+
+// For routes whose payload is not described field by field
+export const okResponse = z.looseObject({ success: z.literal(true) });
+
+export const memoryResponse = successResponse({ memory: memoryJson });
+
+export const memoryListResponse = successResponse({
+  memories: z.array(memoryJson),
+  nextCursor: z.string().nullable().describe("Pass as cursor to get the next page; null on the last page"),
+});
+
+export const memorySearchResponse = successResponse({ results: z.array(memoryResultJson) });
+
+export const memoryWriteResponse = successResponse({
+  id: z.string().describe("ID of the stored memory, or of the one it duplicated or merged into"),
+  outcome: z.string(),
+  indexStatus: z.enum(["pending", "indexed", "failed"]),
+  conflicts: z.array(z.object({
+    conflictId: z.string(),
+    memoryId: z.string().describe("ID of the existing memory"),
+    content: z.string(),
+    reason: z.string().nullable(),
+  })).optional().describe("Existing memories the new one contradicts, recorded as open conflicts"),
+});
+
+const ingestedFactJson = z.object({
+  content: z.string(),
+  tier,
+  importance: z.number(),
+  source: z.string(),
+});
+
+export const memoryIngestResponse = successResponse({
+  messagesRead: z.number().describe("How many of the newest messages the model read"),
+  stored: z.array(ingestedFactJson.extend({ id: z.string() })),
+  skipped: z.array(ingestedFactJson.extend({
+    reason: z.enum(["duplicate", "repeated"]).describe("duplicate of an existing memory, or repeated within the conversation"),
+    memoryId: z.string().optional().describe("The existing memory, for duplicates"),
+  })),
+});
+
+export const memoryBatchWriteResponse = successResponse({
+  ids: z.array(z.string()),
+  indexStatus: z.literal("pending"),
+});
+
+export const memoryLinksResponse = successResponse({
+  memory: memoryJson,
+  links: z.array(z.object({
+    id: z.string(),
+    type: z.enum(LINK_TYPES),
+    direction: z.enum(["out", "in"]).describe("out when the memory in the path is the source"),
+    createdAt: z.number(),
+    createdBy: z.string().nullable(),
+    memory: memoryJson,
+  })),
+});
+
+export const documentCreateResponse = successResponse({
+  documentId: z.string(),
+  memoryIds: z.array(z.string()).describe("One chunk memory per chunk, in document order"),
+  indexStatus: z.literal("pending"),
+});
+
+export const documentsResponse = successResponse({ documents: z.array(documentJson) });
+
+export const documentResponse = successResponse({
+  document: documentJson.extend({
+    content: z.string(),
+    chunks: z.array(z.object({ index: z.number(), memoryId: z.string(), content: z.string() })),
+  }),
+});
+
+export const conflictsResponse = successResponse({ conflicts: z.array(conflictJson) });
+
+export const entitiesResponse = successResponse({ entities: z.array(entityJson) });
+
+export const entityResponse = successResponse({ entity: entityJson });
+
+export const entityMemoriesResponse = successResponse({
+  entity: entityJson,
+  memories: z.array(memoryJson),
+});
+
+export const entityNeighboursResponse = successResponse({
+  entity: entityJson,
+  neighbours: z.array(z.object({
+    depth: z.number(),
+    from: z.object({ id: z.string(), name: z.string() }),
+    relation: z.string(),
+    direction: z.enum(["out", "in"]).describe("out when from is the subject of the relation"),
+    entity: z.object({ id: z.string(), name: z.string(), type: z.string() }),
+    memoryId: z.string().describe("Memory the relation was extracted from"),
+  })),
+});
+
+export const tagsResponse = successResponse({ tags: z.array(z.string()) });
+
+export const importResponse = successResponse({
+  created: z.number(),
+  duplicates: z.number(),
+  failed: z.number(),
+  errors: z.array(z.object({ index: z.number(), error: z.string() })),
+});
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { validator } from "hono/validator";
+
+/* ================================
+   TYPES
+================================ */
+
+type ValidatedTarget = "json" | "query" | "param";
+
+export type ValidationIssue = {
+  // dotted path to the field, empty for the whole input
+  path: string;
+  message: string;
+};
+
+const TARGET_LABELS: Record<ValidatedTarget, string> = {
+  json: "request body",
+  query: "query parameters",
+  param: "path parameters",
+};
+
+/* ================================
+   VALIDATION
+================================ */
+
+/**
+ * Hono middleware that parses one part of the request with a zod schema and
+ * answers 400 with field-level issues when it does not match. Handlers read
+ * the parsed value with c.req.valid(target). A JSON body sent without a JSON
+ * Content-Type is validated as {}, so routes whose fields are all optional
+ * accept an empty request.
+ */
+export function validate<Target extends ValidatedTarget, Schema extends z.ZodType>(
+  target: Target,
+  schema: Schema
+) {
+  return validator(target, (value, c) => {
+    const parsed = schema.safeParse(value);
+    if (!parsed.success) {
+      return c.json({
+        success: false as const,
+        error: `Invalid ${TARGET_LABELS[target]}`,
+        issues: toIssues(parsed.error),
+      }, 400);
+    }
+    return parsed.data as z.output<Schema>;
+  });
+}
+
+export function toIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
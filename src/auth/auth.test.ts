@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { hasScope, parseScopes } from "./auth";
+
+describe("hasScope", () => {
+  it("lets admin do anything", () => {
+    expect(hasScope(["admin"], "read")).toBe(true);
+    expect(hasScope(["admin"], "write")).toBe(true);
+    expect(hasScope(["admin"], "admin")).toBe(true);
+  });
+
+  it("lets write read", () => {
+    expect(hasScope(["write"], "read")).toBe(true);
+    expect(hasScope(["write"], "write")).toBe(true);
+    expect(hasScope(["write"], "admin")).toBe(false);
+  });
+
+  it("keeps read to reading", () => {
+    expect(hasScope(["read"], "read")).toBe(true);
+    expect(hasScope(["read"], "write")).toBe(false);
+    expect(hasScope(["read"], "admin")).toBe(false);
+  });
+
+  it("grants nothing without scopes", () => {
+    expect(hasScope([], "read")).toBe(false);
+  });
+});
+
+describe("parseScopes", () => {
+  it("drops unknown scopes", () => {
+    expect(parseScopes("read,owner,write")).toEqual(["read", "write"]);
+  });
+
+  it("returns nothing for an empty string", () => {
+    expect(parseScopes("")).toEqual([]);
+  });
+});
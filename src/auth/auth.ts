@@ -0,0 +1,157 @@
+import type { MiddlewareHandler } from "hono";
+import type { OAuthHelpers } from "@cloudflare/workers-oauth-provider";
+import { DB, type ApiKeyScope } from "../db/db";
+
+/* ================================
+   TYPES
+================================ */
+
+export type AuthContext = {
+  userId: string;
+  keyId: string;
+  scopes: ApiKeyScope[];
+};
+
+export type AppEnv = {
+  // OAUTH_PROVIDER is injected by the OAuthProvider wrapper, not a wrangler binding
+  Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers };
+  Variables: {
+    auth: AuthContext;
+  };
+};
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["read", "write", "admin"];
+
+const API_KEY_PREFIX = "mcpm_";
+
+// keyId reported for requests made with the operator ADMIN_TOKEN
+export const OPERATOR_KEY_ID = "admin-token";
+
+/* ================================
+   KEYS
+================================ */
+
+export function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return API_KEY_PREFIX + toHex(bytes);
+}
+
+export async function hashApiKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(key)
+  );
+  return toHex(new Uint8Array(digest));
+}
+
+export function isApiKeyScope(value: string): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+export function parseScopes(value: string): ApiKeyScope[] {
+  return value.split(",").filter(isApiKeyScope);
+}
+
+// admin implies write, write implies read
+export function hasScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+  if (scopes.includes("admin")) return true;
+  if (required === "read") return scopes.includes("read") || scopes.includes("write");
+  return scopes.includes(required);
+}
+
+/* ================================
+   AUTHENTICATION
+================================ */
+
+export function extractApiKey(req: Request): string | null {
+  const header = req.headers.get("Authorization");
+  if (header?.startsWith("Bearer ")) {
+    return header.slice("Bearer ".length).trim() || null;
+  }
+  return req.headers.get("X-API-Key");
+}
+
+/**
+ * Resolves the caller from the request credentials.
+ * The operator ADMIN_TOKEN acts as an admin key for whichever user is in the path,
+ * which is how the first key for a user gets created.
+ */
+export async function authenticateRequest(
+  req: Request,
+  env: Env,
+  pathUserId: string,
+  ctx?: Pick<ExecutionContext, "waitUntil">
+): Promise<AuthContext | null> {
+  const key = extractApiKey(req);
+  if (!key) return null;
+
+  if (env.ADMIN_TOKEN && safeEqual(key, env.ADMIN_TOKEN)) {
+    return { userId: pathUserId, keyId: OPERATOR_KEY_ID, scopes: ["admin"] };
+  }
+
+  const db = await DB.getInstance(env);
+  const record = await db.getApiKeyByHash(await hashApiKey(key));
+  if (!record) return null;
+
+  ctx?.waitUntil(db.touchApiKey(record.id));
+
+  return {
+    userId: record.userId,
+    keyId: record.id,
+    scopes: parseScopes(record.scopes),
+  };
+}
+
+/* ================================
+   MIDDLEWARE
+================================ */
+
+export function requireAuth(scope: ApiKeyScope): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const pathUserId = c.req.param("userId") ?? "";
+    const auth = await authenticateRequest(c.req.raw, c.env, pathUserId, c.executionCtx);
+
+    if (!auth) {
+      c.header("WWW-Authenticate", "Bearer");
+      return c.json({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    if (auth.userId !== pathUserId) {
+      return c.json({ success: false, error: "Credential does not belong to this user" }, 403);
+    }
+
+    if (!hasScope(auth.scopes, scope)) {
+      return c.json({ success: false, error: `Missing required scope: ${scope}` }, 403);
+    }
+
+    c.set("auth", auth);
+    await next();
+  };
+}
+
+// Must run after requireAuth; only the operator token passes,
+// never a user's own admin key
+export function requireOperator(): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    if (c.get("auth").keyId !== OPERATOR_KEY_ID) {
+      return c.json({ success: false, error: "Operator token required" }, 403);
+    }
+    await next();
+  };
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  if (left.byteLength !== right.byteLength) return false;
+  return crypto.subtle.timingSafeEqual(left, right);
+}
@@ -0,0 +1,174 @@
+import { Hono } from "hono";
+import { html } from "hono/html";
+import type { ConsentDescription } from "@cloudflare/workers-oauth-provider";
+import { DB, type ApiKeyScope } from "../db/db";
+import { hashApiKey, hasScope, parseScopes, requireAuth, type AppEnv } from "./auth";
+
+/* ================================
+   CONFIG
+================================ */
+
+// Scopes an MCP client may be granted; key management stays API-key only
+export const OAUTH_SCOPES = ["read", "write"] as const;
+
+/* ================================
+   AUTHORIZE (consent page)
+================================ */
+
+export const oauth = new Hono<AppEnv>();
+
+oauth.get("/authorize", async (c) => {
+  try {
+    const authRequest = await c.env.OAUTH_PROVIDER.parseAuthRequest(c.req.raw);
+    const consent = await c.env.OAUTH_PROVIDER.describeConsent(authRequest);
+    const { handle, headers } = await c.env.OAUTH_PROVIDER.beginConsent(authRequest);
+
+    const page = await renderConsentPage(consent, handle);
+    headers.set("Content-Type", "text/html; charset=utf-8");
+    return new Response(page, { headers });
+  } catch (err) {
+    console.error("OAuth authorize request failed:", err);
+    return c.text("Invalid authorization request", 400);
+  }
+});
+
+oauth.post("/authorize", async (c) => {
+  try {
+    const form = await c.req.parseBody();
+    const handle = typeof form.handle === "string" ? form.handle : "";
+
+    if (form.action === "deny") {
+      const denied = await c.env.OAUTH_PROVIDER.denyConsent(c.req.raw, handle);
+      return new Response(null, { status: 302, headers: denied.headers });
+    }
+
+    // The user proves who they are with one of their API keys;
+    // the handle is only consumed once the key checks out
+    const apiKey = typeof form.api_key === "string" ? form.api_key.trim() : "";
+    const db = await DB.getInstance(c.env);
+    const key = apiKey ? await db.getApiKeyByHash(await hashApiKey(apiKey)) : null;
+
+    if (!key) {
+      return c.text("Invalid API key. Go back and try again.", 401);
+    }
+
+    // Checked against the scopes the page showed before the handle is used up,
+    // so the user can go back and try another key
+    const keyScopes = parseScopes(key.scopes);
+    const shown = typeof form.scope === "string" ? form.scope.split(" ").filter(Boolean) : [];
+    if (!grantableScopes(shown, keyScopes).length) {
+      return c.text("This API key cannot grant any of the requested scopes. Go back and try another key.", 403);
+    }
+
+    const approved = await c.env.OAUTH_PROVIDER.approveConsent(c.req.raw, handle);
+
+    // The stored request is authoritative; the form field only spared the handle
+    const scope = grantableScopes(approved.request.scope, keyScopes);
+    if (!scope.length) {
+      return c.text("This API key cannot grant any of the requested scopes.", 403);
+    }
+
+    // props end up in MyMCP as this.props for every request made with the token
+    const { redirectTo } = await c.env.OAUTH_PROVIDER.completeAuthorization({
+      request: approved.request,
+      userId: key.userId,
+      metadata: { apiKeyId: key.id, apiKeyName: key.name },
+      scope,
+      props: {
+        userId: key.userId,
+        scopes: scope,
+        // The approving key, recorded as the actor of edits made with the token
+        keyId: key.id,
+      },
+    });
+
+    approved.headers.set("Location", redirectTo);
+    return new Response(null, { status: 302, headers: approved.headers });
+  } catch (err) {
+    console.error("OAuth authorization failed:", err);
+    return c.text("Authorization failed", 400);
+  }
+});
+
+/* ================================
+   GRANTS (list / revoke)
+================================ */
+
+oauth.get("/:userId/oauth/grants", requireAuth("admin"), async (c) => {
+  const { userId } = c.get("auth");
+
+  try {
+    const { items } = await c.env.OAUTH_PROVIDER.listUserGrants(userId);
+
+    return c.json({
+      success: true,
+      grants: items.map((g) => ({
+        id: g.id,
+        clientId: g.clientId,
+        scopes: g.scope,
+        createdAt: g.createdAt,
+        expiresAt: g.expiresAt ?? null,
+      })),
+    });
+  } catch (err) {
+    console.error("OAuth grant listing failed:", err);
+    return c.json({ success: false, error: "OAuth grant listing failed" }, 500);
+  }
+});
+
+oauth.delete("/:userId/oauth/grants/:grantId", requireAuth("admin"), async (c) => {
+  const { userId } = c.get("auth");
+  const grantId = c.req.param("grantId");
+
+  try {
+    // Revoking the grant also invalidates its access and refresh tokens
+    await c.env.OAUTH_PROVIDER.revokeGrant(grantId, userId);
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("OAuth grant revocation failed:", err);
+    return c.json({ success: false, error: "OAuth grant revocation failed" }, 500);
+  }
+});
+
+/* ================================
+   HELPERS
+================================ */
+
+// No requested scopes means all of OAUTH_SCOPES
+function grantableScopes(requested: string[], keyScopes: ApiKeyScope[]): string[] {
+  const wanted = requested.length ? requested : [...OAUTH_SCOPES];
+  return OAUTH_SCOPES.filter((s) => wanted.includes(s) && hasScope(keyScopes, s));
+}
+
+function renderConsentPage(consent: ConsentDescription, handle: string) {
+  return html`<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Authorize ${consent.clientName}</title>
+  </head>
+  <body>
+    <h1>Authorize ${consent.clientName}</h1>
+    <p>
+      <strong>${consent.clientName}</strong>
+      ${consent.clientDomain ? html`(${consent.clientDomain})` : ""}
+      wants access to your memories.
+    </p>
+    <p>Tokens will be sent to <strong>${consent.redirectHost}</strong>.</p>
+    ${consent.redirectIsLoopback
+      ? html`<p><em>This redirect goes to an app on your own machine. Only continue if you started this connection.</em></p>`
+      : ""}
+    <p>Requested scopes: ${consent.scope.length ? consent.scope.join(", ") : OAUTH_SCOPES.join(", ")}</p>
+    <form method="post" action="/authorize">
+      <input type="hidden" name="handle" value="${handle}" />
+      <input type="hidden" name="scope" value="${consent.scope.join(" ")}" />
+      <label>
+        API key
+        <input type="password" name="api_key" autocomplete="off" />
+      </label>
+      <button type="submit" name="action" value="approve">Approve</button>
+      <button type="submit" name="action" value="deny">Deny</button>
+    </form>
+  </body>
+</html>`;
+}
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { DB, type ConflictResolution, type CreateMemoryInput } from "./db";
+import { findRelatedVectors, generateEmbeddings } from "./vectorize";
+import type { MemoryConfig } from "./settings";
+import { classifyAgainstMemories, mergeFacts } from "../ai/text";
+import { dispatchOutbox } from "../jobs/indexing";
+
+/* ================================
+   CONFIG
+================================ */
+
+// Related memories the model judges per write; keeps the prompt and the latency small
+const MAX_CONFLICT_CANDIDATES = 5;
+const MAX_REASON_LENGTH = 300;
+
+/* ================================
+   TYPES
+================================ */
+
+export type DetectedConflict = {
+  conflictId: string;
+  // the existing memory the new one contradicts
+  memoryId: string;
+  content: string;
+  reason: string | null;
+};
+
+export type ResolveOutcome = "resolved" | "not_found" | "already_resolved" | "merge_failed";
+
+// Loose on purpose: entries the model mangles are dropped rather than failing the check
+const classificationSchema = z.array(z.looseObject({
+  index: z.coerce.number().int(),
+  relation: z.string(),
+  reason: z.string().optional(),
+}).nullable().catch(null));
+
+/* ================================
+   DETECTION
+================================ */
+
+/**
+ * Asks the text model whether a just-written memory contradicts the user's
+ * closest existing memories, and records every contradiction as an open
+ * conflict. Best effort: the memory is already stored, so a failure here is
+ * logged and reported as no conflicts.
+ */
+export async function detectConflicts(
+  memoryId: string,
+  input: CreateMemoryInput,
+  vector: number[] | null,
+  env: Env,
+  config: MemoryConfig
+): Promise<DetectedConflict[]> {
+  try {
+    const [values] = vector ? [vector] : await generateEmbeddings(input.content, env);
+    if (!values) return [];
+
+    const matches = await findRelatedVectors(values, input.userId, env, {
+      topK: MAX_CONFLICT_CANDIDATES,
+      threshold: config.conflictThreshold,
+    });
+    const ids = matches.map(m => m.id).filter(id => id !== memoryId);
+    if (!ids.length) return [];
+
+    // Vectors can outlive their rows; keep the match order for the numbered prompt
+    const db = await DB.getInstance(env);
+    const byId = new Map((await db.getMemoriesByIds(input.userId, ids)).map(m => [m.id, m]));
+    const candidates = ids.flatMap(id => byId.get(id) ?? []);
+    if (!candidates.length) return [];
+
+    const raw = await classifyAgainstMemories(input.content, candidates.map(m => m.content), env);
+    const contradicted = parseContradictions(raw ?? "", candidates.length);
+    if (!contradicted.size) return [];
+
+    const conflicts = [...contradicted].map(([index, reason]) => ({
+      memory: candidates[index],
+      reason,
+    }));
+    const conflictIds = await db.createConflicts(
+      input.userId,
+      memoryId,
+      conflicts.map(c => ({ conflictingId: c.memory.id, reason: c.reason }))
+    );
+
+    return conflicts.map((c, i) => ({
+      conflictId: conflictIds[i],
+      memoryId: c.memory.id,
+      content: c.memory.content,
+      reason: c.reason,
+    }));
+  } catch (err) {
+    console.error("Conflict detection failed", { memoryId, err });
+    return [];
+  }
+}
+
+// Zero-based candidate index -> reason, for every fact judged contradicting
+function parseContradictions(raw: string, count: number): Map<number, string | null> {
+  const contradicted = new Map<number, string | null>();
+
+  // The model sometimes wraps the JSON in prose or a code fence
+  const start = raw.indexOf("[");
+  const end = raw.lastIndexOf("]");
+  if (start === -1 || end <= start) return contradicted;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return contradicted;
+  }
+
+  const parsed = classificationSchema.safeParse(json);
+  if (!parsed.success) return contradicted;
+
+  for (const entry of parsed.data) {
+    if (!entry || !entry.relation.toLowerCase().startsWith("contradict")) continue;
+    if (entry.index < 1 || entry.index > count) continue;
+
+    contradicted.set(entry.index - 1, entry.reason?.trim().slice(0, MAX_REASON_LENGTH) || null);
+  }
+
+  return contradicted;
+}
+
+/* ================================
+   RESOLUTION
+================================ */
+
+/**
+ * Settles an open conflict. keep_new and keep_existing move the other memory
+ * to the trash, keep_both drops the contradicts link, and merge folds both
+ * memories into one and trashes the other. The merge goes into the long-term
+ * memory when the tiers differ, otherwise into the new one.
+ */
+export async function resolveConflict(
+  userId: string,
+  conflictId: string,
+  resolution: ConflictResolution,
+  actor: string | null,
+  env: Env
+): Promise<ResolveOutcome> {
+  const db = await DB.getInstance(env);
+  const conflict = await db.getConflict(conflictId, userId);
+  if (!conflict) return "not_found";
+  if (conflict.status === "resolved") return "already_resolved";
+
+  // A conflict whose memory was deleted or expired since is no longer listed
+  const live = new Map(
+    (await db.getMemoriesByIds(userId, [conflict.memory.id, conflict.conflicting.id])).map(m => [m.id, m])
+  );
+  const newer = live.get(conflict.memory.id);
+  const existing = live.get(conflict.conflicting.id);
+  if (!newer || !existing) return "not_found";
+
+  // A short-term target would let the merged fact expire
+  const mergeIntoExisting = existing.tier === "long" && newer.tier !== "long";
+  const target = mergeIntoExisting ? existing.id : newer.id;
+  const source = mergeIntoExisting ? newer.id : existing.id;
+
+  // Merged before claiming, so a failed merge leaves the conflict open
+  const merged = resolution === "merge"
+    ? await mergeFacts([existing.content, newer.content], env)
+    : undefined;
+  if (resolution === "merge" && !merged) return "merge_failed";
+
+  // Claimed first, so two concurrent resolutions do not both act
+  if (!await db.markConflictResolved(conflictId, userId, resolution, actor)) {
+    return "already_resolved";
+  }
+
+  if (resolution === "keep_both") {
+    await db.removeMemoryLinks(userId, newer.id, existing.id, "contradicts");
+    return "resolved";
+  }
+
+  if (merged) {
+    // Tags first, so the re-embed queued by updateMemory picks them up
+    await db.addTags(target, userId, await db.getTags(source));
+    await db.updateMemory(target, userId, merged, actor ?? "merge");
+  }
+
+  const trashed = merged ? source : resolution === "keep_existing" ? newer.id : existing.id;
+  await db.deleteMemory(trashed, userId);
+  await dispatchOutbox(userId, env);
+
+  return "resolved";
+}
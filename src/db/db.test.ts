@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor, InvalidCursorError } from "./db";
+
+describe("cursors", () => {
+  it("round-trip the sort key and id", () => {
+    const cursor = encodeCursor("importance", 0.75, "4f1c2a9e-7d3b-4c55-9a0e-2b6f8d1e3c47");
+    expect(decodeCursor(cursor, "importance")).toEqual({ value: 0.75, id: "4f1c2a9e-7d3b-4c55-9a0e-2b6f8d1e3c47" });
+  });
+
+  it("are URL safe", () => {
+    const cursor = encodeCursor("newest", 1767312000000, "id?>>~~");
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, "newest")).toEqual({ value: 1767312000000, id: "id?>>~~" });
+  });
+
+  it("reject a cursor issued for another sort", () => {
+    const cursor = encodeCursor("newest", 1767312000000, "a");
+    expect(() => decodeCursor(cursor, "oldest")).toThrow(InvalidCursorError);
+  });
+
+  it("reject anything that is not a cursor", () => {
+    expect(() => decodeCursor("not-a-cursor", "newest")).toThrow(InvalidCursorError);
+    expect(() => decodeCursor(btoa(JSON.stringify({ s: "newest", v: "1", id: "a" })), "newest")).toThrow(InvalidCursorError);
+    expect(() => decodeCursor("", "newest")).toThrow(InvalidCursorError);
+  });
+});
@@ -2,6 +2,19 @@ import { v4 as uuidv4 } from "uuid";
 
 export type MemoryTier = "short" | "long";
 
+// Whether the memory's vector reflects its current content
+export type IndexStatus = "pending" | "indexed" | "failed";
+
+// metadata rewrites a vector's tags without re-embedding it
+export type IndexOperation = "upsert" | "delete" | "metadata";
+
+export type OutboxEntry = {
+  id: string;
+  memoryId: string;
+  userId: string;
+  operation: IndexOperation;
+};
+
 export type MemoryRecord = {
   id: string;
   userId: string;
@@ -11,6 +24,190 @@ export type MemoryRecord = {
   source: string | null;
   created_at: number;
   updated_at: number | null;
+  // actor of the latest edit; null until the first update
+  updated_by: string | null;
+  expires_at: number | null;
+  access_count: number;
+  last_accessed_at: number | null;
+  index_status: IndexStatus;
+  // set while the memory sits in the trash; its vector is removed meanwhile
+  deleted_at: number | null;
+};
+
+// Timestamps are epoch milliseconds
+export type MemoryFilters = {
+  source?: string;
+  minImportance?: number;
+  createdAfter?: number;
+  createdBefore?: number;
+  // memory must carry every listed tag
+  tags?: string[];
+};
+
+// A superseded state of a memory. updated_at and actor describe when and by
+// whom this content was written; replaced_at is when it was overwritten
+export type MemoryVersion = {
+  id: string;
+  memoryId: string;
+  version: number;
+  content: string;
+  actor: string | null;
+  updated_at: number;
+  replaced_at: number;
+};
+
+// source supersedes target: the target is the outdated memory
+export const LINK_TYPES = ["supersedes", "contradicts", "related_to"] as const;
+
+export type LinkType = (typeof LINK_TYPES)[number];
+
+// A link as seen from one memory: out when that memory is the source
+export type MemoryLink = {
+  id: string;
+  type: LinkType;
+  direction: "out" | "in";
+  created_at: number;
+  created_by: string | null;
+  memory: MemoryRecord;
+};
+
+// keep_new and keep_existing trash the other memory; merge folds both into one, the long-term one if the tiers differ
+export const CONFLICT_RESOLUTIONS = ["keep_new", "keep_existing", "keep_both", "merge"] as const;
+
+export type ConflictResolution = (typeof CONFLICT_RESOLUTIONS)[number];
+
+// A new memory that contradicts an existing one, found when it was written
+export type MemoryConflict = {
+  id: string;
+  userId: string;
+  reason: string | null;
+  status: "open" | "resolved";
+  resolution: ConflictResolution | null;
+  created_at: number;
+  resolved_at: number | null;
+  resolved_by: string | null;
+  memory: ConflictMemory;
+  conflicting: ConflictMemory;
+};
+
+// tier and content are null once the memory has been permanently deleted
+export type ConflictMemory = {
+  id: string;
+  tier: MemoryTier | null;
+  content: string | null;
+};
+
+// A long text stored whole and, for search, as one child memory per chunk
+export type DocumentRecord = {
+  id: string;
+  userId: string;
+  title: string;
+  source: string | null;
+  content: string;
+  created_at: number;
+  // live chunk memories
+  chunk_count: number;
+};
+
+export type DocumentChunk = {
+  memoryId: string;
+  index: number;
+  content: string;
+};
+
+// Which document a chunk memory belongs to
+export type ChunkRef = {
+  documentId: string;
+  title: string;
+  chunkIndex: number;
+  chunkCount: number;
+};
+
+export type CreateDocumentInput = {
+  userId: string;
+  title: string;
+  content: string;
+  source?: string;
+  importance?: number;
+  tags?: string[];
+};
+
+// Entity names are matched on normalized_name, so "Alice" and "alice " are one entity
+export type EntityRecord = {
+  id: string;
+  userId: string;
+  name: string;
+  normalized_name: string;
+  type: string;
+  created_at: number;
+  updated_at: number;
+  // live memories that mention the entity
+  mentions: number;
+};
+
+// A relation as seen from one entity: out when that entity is the subject
+export type EntityNeighbour = {
+  relation: string;
+  direction: "out" | "in";
+  entity: Pick<EntityRecord, "id" | "name" | "type">;
+  // memory the relation was extracted from
+  memoryId: string;
+};
+
+export type MemoryGraph = {
+  entities: Array<{ name: string; normalizedName: string; type: string }>;
+  // source and target are normalized entity names from entities
+  relations: Array<{ source: string; target: string; type: string }>;
+};
+
+export const MEMORY_SORTS = ["newest", "oldest", "importance", "updated"] as const;
+
+export type MemorySort = (typeof MEMORY_SORTS)[number];
+
+export type ListMemoriesOptions = {
+  tier?: MemoryTier;
+  filters?: MemoryFilters;
+  sort?: MemorySort;
+  limit?: number;
+  // nextCursor of the previous page; only valid with the same sort
+  cursor?: string;
+};
+
+export type MemoryPage = {
+  memories: MemoryRecord[];
+  // null on the last page
+  nextCursor: string | null;
+};
+
+export type TagCount = {
+  tag: string;
+  count: number;
+};
+
+export type KeywordMatch = {
+  id: string;
+  content: string;
+  created_at: number;
+};
+
+// Per-memory inputs to search ranking that only D1 knows about
+export type RankingSignals = {
+  importance: number;
+  access_count: number;
+  last_accessed_at: number | null;
+};
+
+export type ApiKeyScope = "read" | "write" | "admin";
+
+export type ApiKeyRecord = {
+  id: string;
+  userId: string;
+  name: string;
+  key_prefix: string;
+  scopes: string;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
 };
 
 export type CreateMemoryInput = {
@@ -20,8 +217,38 @@ export type CreateMemoryInput = {
   content: string;
   importance?: number;
   source?: string;
+  // only applies to short-tier memories; defaults to SHORT_MEMORY_TTL_SECONDS
+  ttlSeconds?: number;
+  tags?: string[];
+  // original creation time, kept by imports; defaults to now
+  createdAt?: number;
 };
 
+const DEFAULT_MAX_MEMORIES_PER_USER = 10000;
+const DEFAULT_SHORT_MEMORY_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+const MAX_TAG_LENGTH = 64;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+// Leaves room for other bound parameters under D1's limit of 100
+export const ID_CHUNK_SIZE = 90;
+
+export class QuotaExceededError extends Error {
+  constructor(
+    readonly limit: number,
+    readonly current: number
+  ) {
+    super(`Memory quota exceeded: ${current} of ${limit} memories used`);
+    this.name = "QuotaExceededError";
+  }
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor: pass the nextCursor of a page listed with the same sort");
+    this.name = "InvalidCursorError";
+  }
+}
+
 export class DB {
   private static instance: Promise<DB> | null = null;
   private env!: Env;
@@ -56,209 +283,2076 @@ export class DB {
          importance REAL DEFAULT 0,
          source TEXT,
          created_at INTEGER NOT NULL,
-         updated_at INTEGER
+         updated_at INTEGER,
+         updated_by TEXT,
+         expires_at INTEGER,
+         access_count INTEGER NOT NULL DEFAULT 0,
+         last_accessed_at INTEGER,
+         index_status TEXT NOT NULL DEFAULT 'indexed',
+         deleted_at INTEGER
        )`
     ).run();
 
+    // Tables created before expiry, access tracking, the outbox and the trash existed lack the columns;
+    // rows written before the outbox were indexed inline
+    await this.ensureColumn("memories", "expires_at", "INTEGER");
+    await this.ensureColumn("memories", "access_count", "INTEGER NOT NULL DEFAULT 0");
+    await this.ensureColumn("memories", "last_accessed_at", "INTEGER");
+    await this.ensureColumn("memories", "index_status", "TEXT NOT NULL DEFAULT 'indexed'");
+    await this.ensureColumn("memories", "updated_by", "TEXT");
+    await this.ensureColumn("memories", "deleted_at", "INTEGER");
+
     await this.env.DB.prepare(
       `CREATE INDEX IF NOT EXISTS idx_memories_user_tier
        ON memories (userId, tier)`
     ).run();
-  }
 
-  async createMemory(params: CreateMemoryInput) {
-    const id = params.id ?? `${params.userId}:${params.tier}:${uuidv4()}`;
-    const now = Date.now();
+    // Keyset pages of the default (newest first) listing
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memories_user_created
+       ON memories (userId, created_at, id)`
+    ).run();
 
+    // The importance and updated listings; the expression matches SORT_KEYS.updated
     await this.env.DB.prepare(
-      `INSERT INTO memories
-       (id, userId, tier, content, importance, source, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`
-    )
-      .bind(
-        id,
-        params.userId,
-        params.tier,
-        params.content,
-        params.importance ?? 0,
-        params.source ?? null,
-        now
-      )
-      .run();
+      `CREATE INDEX IF NOT EXISTS idx_memories_user_importance
+       ON memories (userId, importance, id)`
+    ).run();
 
-    return id;
-  }
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memories_user_updated
+       ON memories (userId, COALESCE(updated_at, created_at), id)`
+    ).run();
 
-  async batchCreateMemories(memories: CreateMemoryInput[]): Promise<string[]> {
-    const ids: string[] = [];
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memories_expires_at
+       ON memories (expires_at)
+       WHERE expires_at IS NOT NULL`
+    ).run();
 
-    for (const memory of memories) {
-      const id = await this.createMemory(memory);
-      ids.push(id);
-    }
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memories_deleted_at
+       ON memories (deleted_at)
+       WHERE deleted_at IS NOT NULL`
+    ).run();
 
-    return ids;
-  }
+    await this.initKeywordIndex();
 
-  async getMemories(
-    userId: string,
-    tier: MemoryTier,
-    limit: number = 50
-  ): Promise<MemoryRecord[]> {
-    const result = await this.env.DB.prepare(
-      `SELECT id, userId, tier, content, importance, source, created_at, updated_at
-       FROM memories
-       WHERE userId = ? AND tier = ?
-       ORDER BY created_at DESC
-       LIMIT ?`
-    )
-      .bind(userId, tier, limit)
-      .all<MemoryRecord>();
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS memory_tags (
+         memoryId TEXT NOT NULL,
+         userId TEXT NOT NULL,
+         tag TEXT NOT NULL,
+         created_at INTEGER NOT NULL,
+         PRIMARY KEY (memoryId, tag)
+       )`
+    ).run();
 
-    return result.results ?? [];
-  }
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memory_tags_user_tag
+       ON memory_tags (userId, tag)`
+    ).run();
 
-  async getAllMemories(
-    userId: string,
-    tier?: MemoryTier
-  ): Promise<MemoryRecord[]> {
-    let result;
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memory_tags_cleanup
+       AFTER DELETE ON memories BEGIN
+         DELETE FROM memory_tags WHERE memoryId = old.id;
+       END`
+    ).run();
 
-    if (tier) {
-      result = await this.env.DB.prepare(
-        `SELECT id, userId, tier, content, importance, source, created_at, updated_at
-         FROM memories
-         WHERE userId = ? AND tier = ?
-         ORDER BY created_at DESC`
-      )
-        .bind(userId, tier)
-        .all<MemoryRecord>();
-    } else {
-      result = await this.env.DB.prepare(
-        `SELECT id, userId, tier, content, importance, source, created_at, updated_at
-         FROM memories
-         WHERE userId = ?
-         ORDER BY created_at DESC`
-      )
-        .bind(userId)
-        .all<MemoryRecord>();
-    }
+    // Vector work queued in the same D1 batch as the row change it belongs to
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS index_outbox (
+         id TEXT PRIMARY KEY,
+         memoryId TEXT NOT NULL,
+         userId TEXT NOT NULL,
+         operation TEXT NOT NULL,
+         created_at INTEGER NOT NULL,
+         dispatched_at INTEGER
+       )`
+    ).run();
 
-    return result.results ?? [];
-  }
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_index_outbox_memory
+       ON index_outbox (memoryId)`
+    ).run();
 
-  async getMemoryById(
-    memoryId: string,
-    userId: string
-  ): Promise<MemoryRecord | null> {
-    const result = await this.env.DB.prepare(
-      `SELECT id, userId, tier, content, importance, source, created_at, updated_at
-       FROM memories
-       WHERE id = ? AND userId = ?
-       LIMIT 1`
-    )
-      .bind(memoryId, userId)
-      .all<MemoryRecord>();
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS index_dead_letters (
+         id TEXT PRIMARY KEY,
+         memoryId TEXT NOT NULL,
+         userId TEXT NOT NULL,
+         operation TEXT NOT NULL,
+         error TEXT NOT NULL,
+         attempts INTEGER NOT NULL,
+         failed_at INTEGER NOT NULL
+       )`
+    ).run();
 
-    return result.results?.[0] ?? null;
-  }
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS memory_versions (
+         id TEXT PRIMARY KEY,
+         memoryId TEXT NOT NULL,
+         userId TEXT NOT NULL,
+         version INTEGER NOT NULL,
+         content TEXT NOT NULL,
+         actor TEXT,
+         updated_at INTEGER NOT NULL,
+         replaced_at INTEGER NOT NULL,
+         UNIQUE (memoryId, version)
+       )`
+    ).run();
 
-  async getMemoryStats(userId: string): Promise<{
-    short: number;
-    long: number;
-    total: number;
-  }> {
-    const result = await this.env.DB.prepare(
-      `SELECT tier, COUNT(*) as count
-       FROM memories
-       WHERE userId = ?
-       GROUP BY tier`
-    )
-      .bind(userId)
-      .all<{ tier: string; count: number }>();
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memory_versions_cleanup
+       AFTER DELETE ON memories BEGIN
+         DELETE FROM memory_versions WHERE memoryId = old.id;
+       END`
+    ).run();
 
-    let short = 0;
-    let long = 0;
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS memory_links (
+         id TEXT PRIMARY KEY,
+         userId TEXT NOT NULL,
+         source_id TEXT NOT NULL,
+         target_id TEXT NOT NULL,
+         type TEXT NOT NULL,
+         created_at INTEGER NOT NULL,
+         created_by TEXT,
+         UNIQUE (source_id, target_id, type)
+       )`
+    ).run();
 
-    for (const row of result.results ?? []) {
-      const count = Number(row.count) || 0;
-      if (row.tier === "short") short = count;
-      if (row.tier === "long") long = count;
-    }
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memory_links_target
+       ON memory_links (target_id, type)`
+    ).run();
 
-    return {
-      short,
-      long,
-      total: short + long,
-    };
-  }
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memory_links_cleanup
+       AFTER DELETE ON memories BEGIN
+         DELETE FROM memory_links WHERE source_id = old.id OR target_id = old.id;
+       END`
+    ).run();
 
-  async getMemoryCount(userId: string, tier?: MemoryTier): Promise<number> {
-    const result = tier
-      ? await this.env.DB.prepare(
-        `SELECT COUNT(*) as count
-         FROM memories
-         WHERE userId = ? AND tier = ?`
-      )
-        .bind(userId, tier)
-        .all<{ count: number }>()
-      : await this.env.DB.prepare(
-        `SELECT COUNT(*) as count
-         FROM memories
-         WHERE userId = ?`
-      )
-        .bind(userId)
-        .all<{ count: number }>();
+    // memoryId is the memory being written, conflictingId the existing one it contradicts
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS memory_conflicts (
+         id TEXT PRIMARY KEY,
+         userId TEXT NOT NULL,
+         memoryId TEXT NOT NULL,
+         conflictingId TEXT NOT NULL,
+         reason TEXT,
+         status TEXT NOT NULL DEFAULT 'open',
+         resolution TEXT,
+         created_at INTEGER NOT NULL,
+         resolved_at INTEGER,
+         resolved_by TEXT
+       )`
+    ).run();
 
-    const value = result.results?.[0]?.count ?? 0;
-    return Number(value) || 0;
-  }
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memory_conflicts_user_status
+       ON memory_conflicts (userId, status)`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memory_conflicts_cleanup
+       AFTER DELETE ON memories BEGIN
+         DELETE FROM memory_conflicts WHERE memoryId = old.id OR conflictingId = old.id;
+       END`
+    ).run();
+
+    // Documents are long-term only; their chunks are ordinary long-tier memories
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS documents (
+         id TEXT PRIMARY KEY,
+         userId TEXT NOT NULL,
+         title TEXT NOT NULL,
+         source TEXT,
+         content TEXT NOT NULL,
+         created_at INTEGER NOT NULL,
+         deleted_at INTEGER
+       )`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_documents_user_created
+       ON documents (userId, created_at)`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS document_chunks (
+         memoryId TEXT PRIMARY KEY,
+         documentId TEXT NOT NULL,
+         chunk_index INTEGER NOT NULL
+       )`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_document_chunks_document
+       ON document_chunks (documentId, chunk_index)`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS document_chunks_cleanup
+       AFTER DELETE ON memories BEGIN
+         DELETE FROM document_chunks WHERE memoryId = old.id;
+       END`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS entities (
+         id TEXT PRIMARY KEY,
+         userId TEXT NOT NULL,
+         name TEXT NOT NULL,
+         normalized_name TEXT NOT NULL,
+         type TEXT NOT NULL,
+         created_at INTEGER NOT NULL,
+         updated_at INTEGER NOT NULL,
+         UNIQUE (userId, normalized_name)
+       )`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS memory_entities (
+         memoryId TEXT NOT NULL,
+         entityId TEXT NOT NULL,
+         userId TEXT NOT NULL,
+         PRIMARY KEY (memoryId, entityId)
+       )`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_memory_entities_entity
+       ON memory_entities (entityId)`
+    ).run();
+
+    // Every relation belongs to the memory it was extracted from, so editing
+    // or deleting that memory takes the relation with it
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS relations (
+         id TEXT PRIMARY KEY,
+         userId TEXT NOT NULL,
+         source_id TEXT NOT NULL,
+         target_id TEXT NOT NULL,
+         type TEXT NOT NULL,
+         memoryId TEXT NOT NULL,
+         created_at INTEGER NOT NULL,
+         UNIQUE (source_id, target_id, type, memoryId)
+       )`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_relations_source
+       ON relations (source_id)`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_relations_target
+       ON relations (target_id)`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_relations_memory
+       ON relations (memoryId)`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memory_graph_cleanup
+       AFTER DELETE ON memories BEGIN
+         DELETE FROM memory_entities WHERE memoryId = old.id;
+         DELETE FROM relations WHERE memoryId = old.id;
+       END`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS api_keys (
+         id TEXT PRIMARY KEY,
+         userId TEXT NOT NULL,
+         name TEXT NOT NULL,
+         key_hash TEXT NOT NULL UNIQUE,
+         key_prefix TEXT NOT NULL,
+         scopes TEXT NOT NULL,
+         created_at INTEGER NOT NULL,
+         last_used_at INTEGER,
+         revoked_at INTEGER
+       )`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_api_keys_user
+       ON api_keys (userId)`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS user_quotas (
+         userId TEXT PRIMARY KEY,
+         max_memories INTEGER NOT NULL,
+         updated_at INTEGER NOT NULL
+       )`
+    ).run();
+
+    // Only a user's overrides are stored; defaults stay in code
+    await this.env.DB.prepare(
+      `CREATE TABLE IF NOT EXISTS user_settings (
+         userId TEXT PRIMARY KEY,
+         config TEXT NOT NULL,
+         updated_at INTEGER NOT NULL
+       )`
+    ).run();
+  }
+
+  // External-content FTS5 index over memories.content, kept in sync by triggers
+  private async initKeywordIndex() {
+    const existing = await this.env.DB.prepare(
+      `SELECT name FROM sqlite_master
+       WHERE type = 'table' AND name = 'memories_fts'`
+    ).all<{ name: string }>();
+
+    await this.env.DB.prepare(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts
+       USING fts5(content, content='memories', content_rowid='rowid')`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memories_fts_insert
+       AFTER INSERT ON memories BEGIN
+         INSERT INTO memories_fts (rowid, content) VALUES (new.rowid, new.content);
+       END`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memories_fts_delete
+       AFTER DELETE ON memories BEGIN
+         INSERT INTO memories_fts (memories_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+       END`
+    ).run();
+
+    await this.env.DB.prepare(
+      `CREATE TRIGGER IF NOT EXISTS memories_fts_update
+       AFTER UPDATE OF content ON memories BEGIN
+         INSERT INTO memories_fts (memories_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+         INSERT INTO memories_fts (rowid, content) VALUES (new.rowid, new.content);
+       END`
+    ).run();
+
+    // Index rows written before the FTS table existed
+    if (!existing.results?.length) {
+      await this.env.DB.prepare(
+        `INSERT INTO memories_fts (memories_fts) VALUES ('rebuild')`
+      ).run();
+    }
+  }
+
+  private async ensureColumn(table: string, column: string, definition: string) {
+    const result = await this.env.DB.prepare(`PRAGMA table_info(${table})`)
+      .all<{ name: string }>();
+
+    if ((result.results ?? []).some((c) => c.name === column)) return;
+
+    await this.env.DB.prepare(
+      `ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`
+    ).run();
+  }
+
+  async createMemory(params: CreateMemoryInput) {
+    await this.assertQuota(params.userId, 1);
+    return this.insertMemory(params);
+  }
+
+  async batchCreateMemories(memories: CreateMemoryInput[]): Promise<string[]> {
+    const perUser = new Map<string, number>();
+    for (const memory of memories) {
+      perUser.set(memory.userId, (perUser.get(memory.userId) ?? 0) + 1);
+    }
+
+    // Reject the whole batch up front rather than storing part of it
+    for (const [userId, count] of perUser) {
+      await this.assertQuota(userId, count);
+    }
+
+    if (!memories.length) return [];
+
+    // One D1 batch is one transaction: every memory is stored, or none is
+    const ids = memories.map((memory) => this.memoryId(memory));
+    await this.env.DB.batch(
+      memories.flatMap((memory, i) => this.insertStatements(ids[i], memory))
+    );
+
+    return ids;
+  }
+
+  private async insertMemory(params: CreateMemoryInput) {
+    const id = this.memoryId(params);
+    await this.env.DB.batch(this.insertStatements(id, params));
+    return id;
+  }
+
+  private memoryId(params: CreateMemoryInput): string {
+    return params.id ?? `${params.userId}:${params.tier}:${uuidv4()}`;
+  }
+
+  // Row, tags and outbox entry commit together, so no row is ever left unqueued
+  private insertStatements(id: string, params: CreateMemoryInput) {
+    return [
+      this.memoryRowStatement(id, params),
+      ...this.tagStatements(id, params.userId, params.tags ?? []),
+      this.outboxStatement(id, params.userId, "upsert"),
+    ];
+  }
+
+  private memoryRowStatement(id: string, params: CreateMemoryInput) {
+    const now = Date.now();
+    const expiresAt = params.tier === "short"
+      ? now + (params.ttlSeconds ?? this.defaultShortTtlSeconds()) * 1000
+      : null;
+
+    return this.env.DB.prepare(
+      `INSERT INTO memories
+       (id, userId, tier, content, importance, source, created_at, expires_at, index_status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending')`
+    )
+      .bind(
+        id,
+        params.userId,
+        params.tier,
+        params.content,
+        params.importance ?? 0,
+        params.source ?? null,
+        params.createdAt ?? now,
+        expiresAt
+      );
+  }
+
+  async getMemories(
+    userId: string,
+    tier: MemoryTier,
+    limit: number = 50,
+    filters: MemoryFilters = {}
+  ): Promise<MemoryRecord[]> {
+    const filter = filterClause(filters);
+    const result = await this.env.DB.prepare(
+      `SELECT id, userId, tier, content, importance, source, created_at, updated_at, updated_by, expires_at,
+              access_count, last_accessed_at, index_status, deleted_at
+       FROM memories
+       WHERE userId = ? AND tier = ?
+         AND deleted_at IS NULL
+         AND (expires_at IS NULL OR expires_at > ?)${filter.sql}
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+      .bind(userId, tier, Date.now(), ...filter.binds, limit)
+      .all<MemoryRecord>();
+
+    return result.results ?? [];
+  }
+
+  async getAllMemories(
+    userId: string,
+    tier?: MemoryTier,
+    filters: MemoryFilters = {}
+  ): Promise<MemoryRecord[]> {
+    let result;
+    const filter = filterClause(filters);
+
+    if (tier) {
+      result = await this.env.DB.prepare(
+        `SELECT id, userId, tier, content, importance, source, created_at, updated_at, updated_by, expires_at,
+              access_count, last_accessed_at, index_status, deleted_at
+         FROM memories
+         WHERE userId = ? AND tier = ?
+           AND deleted_at IS NULL
+           AND (expires_at IS NULL OR expires_at > ?)${filter.sql}
+         ORDER BY created_at DESC`
+      )
+        .bind(userId, tier, Date.now(), ...filter.binds)
+        .all<MemoryRecord>();
+    } else {
+      result = await this.env.DB.prepare(
+        `SELECT id, userId, tier, content, importance, source, created_at, updated_at, updated_by, expires_at,
+              access_count, last_accessed_at, index_status, deleted_at
+         FROM memories
+         WHERE userId = ?
+           AND deleted_at IS NULL
+           AND (expires_at IS NULL OR expires_at > ?)${filter.sql}
+         ORDER BY created_at DESC`
+      )
+        .bind(userId, Date.now(), ...filter.binds)
+        .all<MemoryRecord>();
+    }
+
+    return result.results ?? [];
+  }
+
+  /**
+   * One page of live memories. Pages are keyset based: the cursor holds the
+   * sort key and id of the last row, so a page costs the same however deep it
+   * is, and rows written between calls do not shift later pages.
+   */
+  async listMemories(userId: string, options: ListMemoriesOptions = {}): Promise<MemoryPage> {
+    const sort = options.sort ?? "newest";
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const { key, direction } = SORT_KEYS[sort];
+    const op = direction === "DESC" ? "<" : ">";
+
+    const tier = options.tier ? "AND tier = ?" : "";
+    const tierBinds = options.tier ? [options.tier] : [];
+    const filter = filterClause(options.filters ?? {});
+
+    const after = options.cursor ? decodeCursor(options.cursor, sort) : null;
+    const keyset = after ? `AND (${key} ${op} ? OR (${key} = ? AND id ${op} ?))` : "";
+    const keysetBinds = after ? [after.value, after.value, after.id] : [];
+
+    // One extra row tells whether another page follows
+    const result = await this.env.DB.prepare(
+      `SELECT id, userId, tier, content, importance, source, created_at, updated_at, updated_by, expires_at,
+              access_count, last_accessed_at, index_status, deleted_at
+       FROM memories
+       WHERE userId = ? ${tier}
+         AND deleted_at IS NULL
+         AND (expires_at IS NULL OR expires_at > ?)${filter.sql}
+         ${keyset}
+       ORDER BY ${key} ${direction}, id ${direction}
+       LIMIT ?`
+    )
+      .bind(userId, ...tierBinds, Date.now(), ...filter.binds, ...keysetBinds, limit + 1)
+      .all<MemoryRecord>();
+
+    const rows = result.results ?? [];
+    const memories = rows.slice(0, limit);
+    const last = memories[memories.length - 1];
+
+    return {
+      memories,
+      nextCursor: rows.length > limit ? encodeCursor(sort, SORT_KEYS[sort].value(last), last.id) : null,
+    };
+  }
+
+  async getMemoryById(
+    memoryId: string,
+    userId: string
+  ): Promise<MemoryRecord | null> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, userId, tier, content, importance, source, created_at, updated_at, updated_by, expires_at,
+              access_count, last_accessed_at, index_status, deleted_at
+       FROM memories
+       WHERE id = ? AND userId = ? AND deleted_at IS NULL
+       LIMIT 1`
+    )
+      .bind(memoryId, userId)
+      .all<MemoryRecord>();
+
+    return result.results?.[0] ?? null;
+  }
+
+  // BM25-ranked, best match first
+  async searchMemoriesByKeyword(
+    userId: string,
+    tier: MemoryTier,
+    query: string,
+    limit: number = 10,
+    filters: MemoryFilters = {}
+  ): Promise<KeywordMatch[]> {
+    const match = toFtsQuery(query);
+    if (!match) return [];
+
+    const filter = filterClause(filters, "m.");
+    const result = await this.env.DB.prepare(
+      `SELECT m.id, m.content, m.created_at
+       FROM memories_fts
+       JOIN memories m ON m.rowid = memories_fts.rowid
+       WHERE memories_fts MATCH ?
+         AND m.userId = ? AND m.tier = ? AND m.deleted_at IS NULL
+         AND (m.expires_at IS NULL OR m.expires_at > ?)${filter.sql}
+       ORDER BY bm25(memories_fts)
+       LIMIT ?`
+    )
+      .bind(match, userId, tier, Date.now(), ...filter.binds, limit)
+      .all<KeywordMatch>();
+
+    return result.results ?? [];
+  }
+
+  // Every id that may own a vector: includes expired rows, excludes trashed ones
+  // The ids that still have a row outside the trash; expired rows own their vector until the sweep runs
+  async getKnownMemoryIds(userId: string, ids: string[]): Promise<Set<string>> {
+    const known = new Set<string>();
+
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.env.DB.prepare(
+        `SELECT id FROM memories WHERE userId = ? AND id IN (${placeholders}) AND deleted_at IS NULL`
+      )
+        .bind(userId, ...chunk)
+        .all<{ id: string }>();
+
+      for (const row of result.results ?? []) known.add(row.id);
+    }
+
+    return known;
+  }
+
+  // Of the given ids, those that exist for the user, have not expired and match
+  // the filters, keyed by id with the signals search ranking needs
+  async getRankingSignals(
+    userId: string,
+    ids: string[],
+    filters: MemoryFilters = {}
+  ): Promise<Map<string, RankingSignals>> {
+    const signals = new Map<string, RankingSignals>();
+    const filter = filterClause(filters);
+    // Filter binds (up to one per tag) come out of the id budget
+    const chunkSize = ID_CHUNK_SIZE - filter.binds.length;
+
+    for (let i = 0; i < ids.length; i += chunkSize) {
+      const chunk = ids.slice(i, i + chunkSize);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.env.DB.prepare(
+        `SELECT id, importance, access_count, last_accessed_at FROM memories
+         WHERE userId = ? AND id IN (${placeholders}) AND deleted_at IS NULL
+           AND (expires_at IS NULL OR expires_at > ?)${filter.sql}`
+      )
+        .bind(userId, ...chunk, Date.now(), ...filter.binds)
+        .all<RankingSignals & { id: string }>();
+
+      for (const { id, ...row } of result.results ?? []) signals.set(id, row);
+    }
+
+    return signals;
+  }
+
+  // Called for memories returned by search/ask; feeds the access ranking term
+  async recordAccess(memoryIds: string[]): Promise<void> {
+    const now = Date.now();
+
+    for (let i = 0; i < memoryIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = memoryIds.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      await this.env.DB.prepare(
+        `UPDATE memories
+         SET access_count = access_count + 1, last_accessed_at = ?
+         WHERE id IN (${placeholders})`
+      )
+        .bind(now, ...chunk)
+        .run();
+    }
+  }
+
+  async getMemoryStats(userId: string): Promise<{
+    short: number;
+    long: number;
+    total: number;
+  }> {
+    const result = await this.env.DB.prepare(
+      `SELECT tier, COUNT(*) as count
+       FROM memories
+       WHERE userId = ? AND deleted_at IS NULL
+       GROUP BY tier`
+    )
+      .bind(userId)
+      .all<{ tier: string; count: number }>();
+
+    let short = 0;
+    let long = 0;
+
+    for (const row of result.results ?? []) {
+      const count = Number(row.count) || 0;
+      if (row.tier === "short") short = count;
+      if (row.tier === "long") long = count;
+    }
+
+    return {
+      short,
+      long,
+      total: short + long,
+    };
+  }
+
+  async getMemoryCount(userId: string, tier?: MemoryTier): Promise<number> {
+    const result = tier
+      ? await this.env.DB.prepare(
+        `SELECT COUNT(*) as count
+         FROM memories
+         WHERE userId = ? AND tier = ? AND deleted_at IS NULL`
+      )
+        .bind(userId, tier)
+        .all<{ count: number }>()
+      : await this.env.DB.prepare(
+        `SELECT COUNT(*) as count
+         FROM memories
+         WHERE userId = ? AND deleted_at IS NULL`
+      )
+        .bind(userId)
+        .all<{ count: number }>();
+
+    const value = result.results?.[0]?.count ?? 0;
+    return Number(value) || 0;
+  }
+
+  // Moves the memory to the trash; the row is purged once the retention window passes
+  async deleteMemory(memoryId: string, userId: string) {
+    // The outbox entry is written first, while the row it selects from is still live
+    const [, result] = await this.env.DB.batch([
+      this.outboxStatement(memoryId, userId, "delete"),
+      this.env.DB.prepare(
+        `UPDATE memories SET deleted_at = ?
+         WHERE id = ? AND userId = ? AND deleted_at IS NULL`
+      ).bind(Date.now(), memoryId, userId),
+    ]);
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  async clearAllMemories(userId: string, tier?: MemoryTier): Promise<number> {
+    const now = Date.now();
+    const scope = tier
+      ? "userId = ? AND tier = ? AND deleted_at IS NULL"
+      : "userId = ? AND deleted_at IS NULL";
+    const binds = tier ? [userId, tier] : [userId];
+
+    const [, result] = await this.env.DB.batch([
+      this.env.DB.prepare(
+        `INSERT INTO index_outbox (id, memoryId, userId, operation, created_at)
+         SELECT lower(hex(randomblob(16))), id, userId, 'delete', ?
+         FROM memories
+         WHERE ${scope}`
+      ).bind(now, ...binds),
+      this.env.DB.prepare(
+        `UPDATE memories SET deleted_at = ?
+         WHERE ${scope}`
+      ).bind(now, ...binds),
+      // Documents only have long-term chunks, so a short-term clear leaves them alone
+      ...(tier === "short" ? [] : [
+        this.env.DB.prepare(
+          `UPDATE documents SET deleted_at = ?
+           WHERE userId = ? AND deleted_at IS NULL`
+        ).bind(now, userId),
+      ]),
+    ]);
+
+    return result.meta?.changes ?? 0;
+  }
+
+  // The replaced content is kept in memory_versions, in the same batch as the update
+  async updateMemory(
+    memoryId: string,
+    userId: string,
+    newContent: string,
+    actor: string | null = null
+  ) {
+    const now = Date.now();
+
+    const [, result] = await this.env.DB.batch([
+      this.env.DB.prepare(
+        `INSERT INTO memory_versions
+         (id, memoryId, userId, version, content, actor, updated_at, replaced_at)
+         SELECT lower(hex(randomblob(16))), m.id, m.userId,
+                (SELECT COALESCE(MAX(v.version), 0) + 1 FROM memory_versions v WHERE v.memoryId = m.id),
+                m.content, COALESCE(m.updated_by, m.source), COALESCE(m.updated_at, m.created_at), ?
+         FROM memories m
+         WHERE m.id = ? AND m.userId = ? AND m.deleted_at IS NULL`
+      ).bind(now, memoryId, userId),
+      this.env.DB.prepare(
+        `UPDATE memories
+         SET content = ?, updated_at = ?, updated_by = ?, index_status = 'pending'
+         WHERE id = ? AND userId = ? AND deleted_at IS NULL`
+      ).bind(newContent, now, actor, memoryId, userId),
+      this.outboxStatement(memoryId, userId, "upsert"),
+    ]);
+
+    if (!result.meta || result.meta.changes === 0) {
+      throw new Error("Memory not found");
+    }
+  }
+  // Oldest first; the memory's current content is not included
+  async getMemoryVersions(memoryId: string, userId: string): Promise<MemoryVersion[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, memoryId, version, content, actor, updated_at, replaced_at
+       FROM memory_versions
+       WHERE memoryId = ? AND userId = ?
+       ORDER BY version ASC`
+    )
+      .bind(memoryId, userId)
+      .all<MemoryVersion>();
+
+    return result.results ?? [];
+  }
+
+  async getMemoryVersion(
+    memoryId: string,
+    userId: string,
+    version: number
+  ): Promise<MemoryVersion | null> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, memoryId, version, content, actor, updated_at, replaced_at
+       FROM memory_versions
+       WHERE memoryId = ? AND userId = ? AND version = ?
+       LIMIT 1`
+    )
+      .bind(memoryId, userId, version)
+      .all<MemoryVersion>();
+
+    return result.results?.[0] ?? null;
+  }
+
+
+  /* =====================================
+     TAGS
+  ===================================== */
+
+  async addTags(memoryId: string, userId: string, tags: string[]): Promise<string[]> {
+    const normalized = normalizeTags(tags);
+    if (!normalized.length) return [];
+
+    await this.env.DB.batch([
+      ...this.tagStatements(memoryId, userId, normalized),
+      this.outboxStatement(memoryId, userId, "metadata"),
+    ]);
+
+    return normalized;
+  }
+
+  async removeTags(memoryId: string, userId: string, tags: string[]): Promise<number> {
+    const normalized = normalizeTags(tags);
+    if (!normalized.length) return 0;
+
+    const placeholders = normalized.map(() => "?").join(", ");
+    const [result] = await this.env.DB.batch([
+      this.env.DB.prepare(
+        `DELETE FROM memory_tags
+         WHERE memoryId = ? AND userId = ? AND tag IN (${placeholders})`
+      ).bind(memoryId, userId, ...normalized),
+      this.outboxStatement(memoryId, userId, "metadata"),
+    ]);
+
+    return result.meta?.changes ?? 0;
+  }
+
+  async getTags(memoryId: string): Promise<string[]> {
+    const tags = await this.getTagsForMemories([memoryId]);
+    return tags.get(memoryId) ?? [];
+  }
+
+  async getTagsForMemories(memoryIds: string[]): Promise<Map<string, string[]>> {
+    const tags = new Map<string, string[]>();
+
+    for (let i = 0; i < memoryIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = memoryIds.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.env.DB.prepare(
+        `SELECT memoryId, tag FROM memory_tags
+         WHERE memoryId IN (${placeholders})
+         ORDER BY tag`
+      )
+        .bind(...chunk)
+        .all<{ memoryId: string; tag: string }>();
+
+      for (const row of result.results ?? []) {
+        const list = tags.get(row.memoryId) ?? [];
+        list.push(row.tag);
+        tags.set(row.memoryId, list);
+      }
+    }
+
+    return tags;
+  }
+
+  async listTags(userId: string): Promise<TagCount[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT t.tag, COUNT(*) as count
+       FROM memory_tags t
+       JOIN memories m ON m.id = t.memoryId
+       WHERE t.userId = ? AND m.deleted_at IS NULL
+         AND (m.expires_at IS NULL OR m.expires_at > ?)
+       GROUP BY t.tag
+       ORDER BY count DESC, t.tag ASC`
+    )
+      .bind(userId, Date.now())
+      .all<TagCount>();
+
+    return (result.results ?? []).map((r) => ({ tag: r.tag, count: Number(r.count) || 0 }));
+  }
+
+  /* =====================================
+     LINKS
+  ===================================== */
+
+  // false when the link already existed
+  async addMemoryLink(params: {
+    userId: string;
+    sourceId: string;
+    targetId: string;
+    type: LinkType;
+    actor: string | null;
+  }): Promise<boolean> {
+    const result = await this.env.DB.prepare(
+      `INSERT OR IGNORE INTO memory_links (id, userId, source_id, target_id, type, created_at, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(uuidv4(), params.userId, params.sourceId, params.targetId, params.type, Date.now(), params.actor)
+      .run();
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  // Removes links between the two memories in either direction, of one type or all
+  async removeMemoryLinks(userId: string, memoryId: string, otherId: string, type?: LinkType): Promise<number> {
+    const typeFilter = type ? "AND type = ?" : "";
+    const typeBinds = type ? [type] : [];
+
+    const result = await this.env.DB.prepare(
+      `DELETE FROM memory_links
+       WHERE userId = ?
+         AND ((source_id = ? AND target_id = ?) OR (source_id = ? AND target_id = ?))
+         ${typeFilter}`
+    )
+      .bind(userId, memoryId, otherId, otherId, memoryId, ...typeBinds)
+      .run();
+
+    return result.meta?.changes ?? 0;
+  }
+
+  // Links in both directions, skipping those to trashed or expired memories
+  async getMemoryLinks(memoryId: string, userId: string): Promise<MemoryLink[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT l.link_id, l.type as link_type, l.direction, l.link_created_at, l.created_by as link_created_by,
+              m.id, m.userId, m.tier, m.content, m.importance, m.source, m.created_at, m.updated_at, m.updated_by,
+              m.expires_at, m.access_count, m.last_accessed_at, m.index_status, m.deleted_at
+       FROM (
+         SELECT id as link_id, type, 'out' as direction, target_id as other_id, created_at as link_created_at, created_by
+         FROM memory_links WHERE source_id = ? AND userId = ?
+         UNION ALL
+         SELECT id as link_id, type, 'in' as direction, source_id as other_id, created_at as link_created_at, created_by
+         FROM memory_links WHERE target_id = ? AND userId = ?
+       ) l
+       JOIN memories m ON m.id = l.other_id
+       WHERE m.deleted_at IS NULL
+         AND (m.expires_at IS NULL OR m.expires_at > ?)
+       ORDER BY l.type ASC, m.created_at DESC`
+    )
+      .bind(memoryId, userId, memoryId, userId, Date.now())
+      .all<MemoryRecord & {
+        link_id: string;
+        link_type: LinkType;
+        direction: "out" | "in";
+        link_created_at: number;
+        link_created_by: string | null;
+      }>();
+
+    return (result.results ?? []).map(({ link_id, link_type, direction, link_created_at, link_created_by, ...memory }) => ({
+      id: link_id,
+      type: link_type,
+      direction,
+      created_at: link_created_at,
+      created_by: link_created_by,
+      memory,
+    }));
+  }
+
+  // For each given memory that a live memory supersedes, the newest such memory
+  async getSupersedingMemories(userId: string, memoryIds: string[]): Promise<Map<string, MemoryRecord>> {
+    const superseding = new Map<string, MemoryRecord>();
+
+    for (let i = 0; i < memoryIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = memoryIds.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.env.DB.prepare(
+        `SELECT l.target_id as superseded_id,
+                m.id, m.userId, m.tier, m.content, m.importance, m.source, m.created_at, m.updated_at, m.updated_by,
+                m.expires_at, m.access_count, m.last_accessed_at, m.index_status, m.deleted_at
+         FROM memory_links l
+         JOIN memories m ON m.id = l.source_id
+         WHERE l.userId = ? AND l.type = 'supersedes' AND l.target_id IN (${placeholders})
+           AND m.deleted_at IS NULL
+           AND (m.expires_at IS NULL OR m.expires_at > ?)
+         ORDER BY m.created_at DESC`
+      )
+        .bind(userId, ...chunk, Date.now())
+        .all<MemoryRecord & { superseded_id: string }>();
+
+      for (const { superseded_id, ...memory } of result.results ?? []) {
+        if (!superseding.has(superseded_id)) superseding.set(superseded_id, memory);
+      }
+    }
+
+    return superseding;
+  }
+
+  /* =====================================
+     CONFLICTS
+  ===================================== */
+
+  // Each conflict also links the two memories as contradicts, so memory_get shows it
+  async createConflicts(
+    userId: string,
+    memoryId: string,
+    conflicts: Array<{ conflictingId: string; reason: string | null }>
+  ): Promise<string[]> {
+    if (!conflicts.length) return [];
+
+    const now = Date.now();
+    const ids = conflicts.map(() => uuidv4());
+
+    await this.env.DB.batch(conflicts.flatMap((conflict, i) => [
+      this.env.DB.prepare(
+        `INSERT INTO memory_conflicts (id, userId, memoryId, conflictingId, reason, status, created_at)
+         VALUES (?, ?, ?, ?, ?, 'open', ?)`
+      ).bind(ids[i], userId, memoryId, conflict.conflictingId, conflict.reason, now),
+      this.env.DB.prepare(
+        `INSERT OR IGNORE INTO memory_links (id, userId, source_id, target_id, type, created_at, created_by)
+         VALUES (?, ?, ?, ?, 'contradicts', ?, 'conflict-detection')`
+      ).bind(uuidv4(), userId, memoryId, conflict.conflictingId, now),
+    ]));
+
+    return ids;
+  }
+
+  // Open conflicts only while both memories are live; resolved ones are history and always listed
+  async getConflicts(
+    userId: string,
+    status: MemoryConflict["status"] = "open",
+    limit: number = 50
+  ): Promise<MemoryConflict[]> {
+    const open = status === "open";
+    const live = open
+      ? `AND m.deleted_at IS NULL AND (m.expires_at IS NULL OR m.expires_at > ?)
+         AND o.deleted_at IS NULL AND (o.expires_at IS NULL OR o.expires_at > ?)`
+      : "";
+    const liveBinds = open ? [Date.now(), Date.now()] : [];
+
+    const result = await this.env.DB.prepare(
+      `${CONFLICT_SELECT}
+       WHERE c.userId = ? AND c.status = ?
+         ${live}
+       ORDER BY c.created_at DESC
+       LIMIT ?`
+    )
+      .bind(userId, status, ...liveBinds, limit)
+      .all<ConflictRow>();
+
+    return (result.results ?? []).map(toConflict);
+  }
+
+  async getConflict(conflictId: string, userId: string): Promise<MemoryConflict | null> {
+    const result = await this.env.DB.prepare(
+      `${CONFLICT_SELECT}
+       WHERE c.id = ? AND c.userId = ?`
+    )
+      .bind(conflictId, userId)
+      .first<ConflictRow>();
+
+    return result ? toConflict(result) : null;
+  }
+
+  // false when the conflict was already resolved
+  async markConflictResolved(
+    conflictId: string,
+    userId: string,
+    resolution: ConflictResolution,
+    actor: string | null
+  ): Promise<boolean> {
+    const result = await this.env.DB.prepare(
+      `UPDATE memory_conflicts
+       SET status = 'resolved', resolution = ?, resolved_at = ?, resolved_by = ?
+       WHERE id = ? AND userId = ? AND status = 'open'`
+    )
+      .bind(resolution, Date.now(), actor, conflictId, userId)
+      .run();
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  async getMemoriesByIds(userId: string, memoryIds: string[]): Promise<MemoryRecord[]> {
+    const memories: MemoryRecord[] = [];
+
+    for (let i = 0; i < memoryIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = memoryIds.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.env.DB.prepare(
+        `SELECT id, userId, tier, content, importance, source, created_at, updated_at, updated_by, expires_at,
+                access_count, last_accessed_at, index_status, deleted_at
+         FROM memories
+         WHERE userId = ? AND id IN (${placeholders}) AND deleted_at IS NULL
+           AND (expires_at IS NULL OR expires_at > ?)`
+      )
+        .bind(userId, ...chunk, Date.now())
+        .all<MemoryRecord>();
+
+      memories.push(...(result.results ?? []));
+    }
+
+    return memories;
+  }
+
+  /* =====================================
+     DOCUMENTS
+  ===================================== */
+
+  // The document, its chunk memories, their tags and outbox entries commit in one batch,
+  // so a failed write never leaves a document with only some of its chunks
+  async createDocument(input: CreateDocumentInput, chunks: string[]): Promise<{ documentId: string; memoryIds: string[] }> {
+    await this.assertQuota(input.userId, chunks.length);
+
+    const now = Date.now();
+    const documentId = uuidv4();
+    const memoryIds = chunks.map(() => `${input.userId}:long:${uuidv4()}`);
+
+    // Tags and outbox entries are one statement each for the whole document,
+    // selected through document_chunks, which keeps the batch small
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        `INSERT INTO documents (id, userId, title, source, content, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      ).bind(documentId, input.userId, input.title, input.source ?? null, input.content, now),
+      ...chunks.flatMap((content, index) => [
+        this.memoryRowStatement(memoryIds[index], {
+          userId: input.userId,
+          tier: "long",
+          content,
+          importance: input.importance,
+          source: input.source ?? "document",
+        }),
+        this.env.DB.prepare(
+          `INSERT INTO document_chunks (memoryId, documentId, chunk_index) VALUES (?, ?, ?)`
+        ).bind(memoryIds[index], documentId, index),
+      ]),
+      ...normalizeTags(input.tags ?? []).map((tag) =>
+        this.env.DB.prepare(
+          `INSERT OR IGNORE INTO memory_tags (memoryId, userId, tag, created_at)
+           SELECT memoryId, ?, ?, ? FROM document_chunks WHERE documentId = ?`
+        ).bind(input.userId, tag, now, documentId)
+      ),
+      this.env.DB.prepare(
+        `INSERT INTO index_outbox (id, memoryId, userId, operation, created_at)
+         SELECT lower(hex(randomblob(16))), memoryId, ?, 'upsert', ?
+         FROM document_chunks
+         WHERE documentId = ?`
+      ).bind(input.userId, now, documentId),
+    ]);
+
+    return { documentId, memoryIds };
+  }
+
+  // Chunk memories are searched like any other, but skip per-memory work such as graph extraction
+  async isDocumentChunk(memoryId: string): Promise<boolean> {
+    const result = await this.env.DB.prepare(
+      `SELECT 1 as found FROM document_chunks WHERE memoryId = ? LIMIT 1`
+    )
+      .bind(memoryId)
+      .first<{ found: number }>();
+
+    return result !== null;
+  }
+
+  async getDocument(documentId: string, userId: string): Promise<DocumentRecord | null> {
+    const result = await this.env.DB.prepare(
+      `SELECT d.id, d.userId, d.title, d.source, d.content, d.created_at,
+              (SELECT COUNT(*) FROM document_chunks dc
+               JOIN memories m ON m.id = dc.memoryId AND m.deleted_at IS NULL
+               WHERE dc.documentId = d.id) as chunk_count
+       FROM documents d
+       WHERE d.id = ? AND d.userId = ? AND d.deleted_at IS NULL`
+    )
+      .bind(documentId, userId)
+      .first<DocumentRecord>();
+
+    return result ?? null;
+  }
+
+  // Newest first, without the full text
+  async listDocuments(userId: string, limit: number = 50): Promise<Array<Omit<DocumentRecord, "content">>> {
+    const result = await this.env.DB.prepare(
+      `SELECT d.id, d.userId, d.title, d.source, d.created_at,
+              (SELECT COUNT(*) FROM document_chunks dc
+               JOIN memories m ON m.id = dc.memoryId AND m.deleted_at IS NULL
+               WHERE dc.documentId = d.id) as chunk_count
+       FROM documents d
+       WHERE d.userId = ? AND d.deleted_at IS NULL
+       ORDER BY d.created_at DESC
+       LIMIT ?`
+    )
+      .bind(userId, limit)
+      .all<Omit<DocumentRecord, "content">>();
+
+    return result.results ?? [];
+  }
+
+  // Live chunks in document order, optionally only those with from <= index <= to
+  async getDocumentChunks(
+    documentId: string,
+    userId: string,
+    range?: { from: number; to: number }
+  ): Promise<DocumentChunk[]> {
+    const rangeFilter = range ? "AND dc.chunk_index BETWEEN ? AND ?" : "";
+    const rangeBinds = range ? [range.from, range.to] : [];
+
+    const result = await this.env.DB.prepare(
+      `SELECT dc.memoryId, dc.chunk_index as "index", m.content
+       FROM document_chunks dc
+       JOIN memories m ON m.id = dc.memoryId
+       WHERE dc.documentId = ? AND m.userId = ? AND m.deleted_at IS NULL ${rangeFilter}
+       ORDER BY dc.chunk_index ASC`
+    )
+      .bind(documentId, userId, ...rangeBinds)
+      .all<DocumentChunk>();
+
+    return result.results ?? [];
+  }
+
+  // Chunk memories among memoryIds, keyed by memory; chunks of deleted documents are left out
+  async getChunkRefs(userId: string, memoryIds: string[]): Promise<Map<string, ChunkRef>> {
+    const refs = new Map<string, ChunkRef>();
+
+    for (let i = 0; i < memoryIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = memoryIds.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.env.DB.prepare(
+        `SELECT dc.memoryId, dc.documentId, dc.chunk_index, d.title,
+                (SELECT COUNT(*) FROM document_chunks c2
+                 JOIN memories m ON m.id = c2.memoryId AND m.deleted_at IS NULL
+                 WHERE c2.documentId = d.id) as chunk_count
+         FROM document_chunks dc
+         JOIN documents d ON d.id = dc.documentId
+         WHERE d.userId = ? AND d.deleted_at IS NULL AND dc.memoryId IN (${placeholders})`
+      )
+        .bind(userId, ...chunk)
+        .all<{ memoryId: string; documentId: string; chunk_index: number; title: string; chunk_count: number }>();
+
+      for (const row of result.results ?? []) {
+        refs.set(row.memoryId, {
+          documentId: row.documentId,
+          title: row.title,
+          chunkIndex: row.chunk_index,
+          chunkCount: row.chunk_count,
+        });
+      }
+    }
+
+    return refs;
+  }
+
+  // Moves the document's chunks to the trash with it
+  async deleteDocument(documentId: string, userId: string): Promise<boolean> {
+    const now = Date.now();
+    const chunkScope = `id IN (SELECT memoryId FROM document_chunks WHERE documentId = ?)
+         AND userId = ? AND deleted_at IS NULL`;
+
+    const [, , result] = await this.env.DB.batch([
+      this.env.DB.prepare(
+        `INSERT INTO index_outbox (id, memoryId, userId, operation, created_at)
+         SELECT lower(hex(randomblob(16))), id, userId, 'delete', ?
+         FROM memories
+         WHERE ${chunkScope}`
+      ).bind(now, documentId, userId),
+      this.env.DB.prepare(
+        `UPDATE memories SET deleted_at = ?
+         WHERE ${chunkScope}`
+      ).bind(now, documentId, userId),
+      this.env.DB.prepare(
+        `UPDATE documents SET deleted_at = ?
+         WHERE id = ? AND userId = ? AND deleted_at IS NULL`
+      ).bind(now, documentId, userId),
+    ]);
+
+    return (result.meta?.changes ?? 0) > 0;
+  }
+
+  // Purged on the same schedule as trashed memories, unless a chunk was restored since
+  async purgeDeletedDocuments(deletedBefore: number): Promise<number> {
+    const result = await this.env.DB.prepare(
+      `DELETE FROM documents
+       WHERE deleted_at IS NOT NULL AND deleted_at <= ?
+         AND NOT EXISTS (
+           SELECT 1 FROM document_chunks dc
+           JOIN memories m ON m.id = dc.memoryId
+           WHERE dc.documentId = documents.id AND m.deleted_at IS NULL
+         )`
+    )
+      .bind(deletedBefore)
+      .run();
+
+    return result.meta?.changes ?? 0;
+  }
+
+  /* =====================================
+     KNOWLEDGE GRAPH
+  ===================================== */
+
+  /**
+   * Replaces everything extracted from one memory. Entities are shared across
+   * memories and upserted by normalized name; entities no memory mentions any
+   * more are dropped at the end.
+   */
+  async replaceMemoryGraph(memoryId: string, userId: string, graph: MemoryGraph): Promise<void> {
+    const now = Date.now();
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(`DELETE FROM memory_entities WHERE memoryId = ?`).bind(memoryId),
+      this.env.DB.prepare(`DELETE FROM relations WHERE memoryId = ?`).bind(memoryId),
+      ...graph.entities.flatMap((entity) => [
+        // A specific type wins over "other" from an earlier, vaguer extraction
+        this.env.DB.prepare(
+          `INSERT INTO entities (id, userId, name, normalized_name, type, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (userId, normalized_name) DO UPDATE SET
+             updated_at = excluded.updated_at,
+             type = CASE WHEN entities.type = 'other' THEN excluded.type ELSE entities.type END`
+        ).bind(uuidv4(), userId, entity.name, entity.normalizedName, entity.type, now, now),
+        this.env.DB.prepare(
+          `INSERT OR IGNORE INTO memory_entities (memoryId, entityId, userId)
+           SELECT ?, id, userId FROM entities
+           WHERE userId = ? AND normalized_name = ?`
+        ).bind(memoryId, userId, entity.normalizedName),
+      ]),
+      ...graph.relations.map((relation) =>
+        this.env.DB.prepare(
+          `INSERT OR IGNORE INTO relations (id, userId, source_id, target_id, type, memoryId, created_at)
+           SELECT ?, s.userId, s.id, t.id, ?, ?, ?
+           FROM entities s, entities t
+           WHERE s.userId = ? AND s.normalized_name = ?
+             AND t.userId = ? AND t.normalized_name = ?`
+        ).bind(uuidv4(), relation.type, memoryId, now, userId, relation.source, userId, relation.target)
+      ),
+      this.env.DB.prepare(
+        `DELETE FROM entities
+         WHERE userId = ?
+           AND NOT EXISTS (SELECT 1 FROM memory_entities me WHERE me.entityId = entities.id)`
+      ).bind(userId),
+    ]);
+  }
+
+  // Matches on normalized name; exact matches first, then by how often the entity is mentioned
+  async findEntities(userId: string, normalizedQuery: string, limit: number = 20): Promise<EntityRecord[]> {
+    const pattern = `%${normalizedQuery.replace(/[\\%_]/g, "\\$&")}%`;
 
-  async deleteMemory(memoryId: string, userId: string) {
     const result = await this.env.DB.prepare(
-      "DELETE FROM memories WHERE id = ? AND userId = ?"
+      `SELECT e.id, e.userId, e.name, e.normalized_name, e.type, e.created_at, e.updated_at,
+              COUNT(*) as mentions
+       FROM entities e
+       JOIN memory_entities me ON me.entityId = e.id
+       JOIN memories m ON m.id = me.memoryId
+       WHERE e.userId = ? AND e.normalized_name LIKE ? ESCAPE '\\'
+         AND m.deleted_at IS NULL
+         AND (m.expires_at IS NULL OR m.expires_at > ?)
+       GROUP BY e.id
+       ORDER BY e.normalized_name = ? DESC, mentions DESC, e.name ASC
+       LIMIT ?`
     )
-      .bind(memoryId, userId)
+      .bind(userId, pattern, Date.now(), normalizedQuery, limit)
+      .all<EntityRecord>();
+
+    return (result.results ?? []).map((r) => ({ ...r, mentions: Number(r.mentions) || 0 }));
+  }
+
+  // By ID or normalized name; only entities some live memory still mentions
+  async getEntity(userId: string, id: string, normalizedName: string): Promise<EntityRecord | null> {
+    const result = await this.env.DB.prepare(
+      `SELECT e.id, e.userId, e.name, e.normalized_name, e.type, e.created_at, e.updated_at,
+              COUNT(*) as mentions
+       FROM entities e
+       JOIN memory_entities me ON me.entityId = e.id
+       JOIN memories m ON m.id = me.memoryId
+       WHERE e.userId = ? AND (e.id = ? OR e.normalized_name = ?)
+         AND m.deleted_at IS NULL
+         AND (m.expires_at IS NULL OR m.expires_at > ?)
+       GROUP BY e.id
+       ORDER BY e.id = ? DESC
+       LIMIT 1`
+    )
+      .bind(userId, id, normalizedName, Date.now(), id)
+      .first<EntityRecord>();
+
+    return result ? { ...result, mentions: Number(result.mentions) || 0 } : null;
+  }
+
+  async getEntityMemories(entityId: string, userId: string, limit: number = 50): Promise<MemoryRecord[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT m.id, m.userId, m.tier, m.content, m.importance, m.source, m.created_at, m.updated_at, m.updated_by,
+              m.expires_at, m.access_count, m.last_accessed_at, m.index_status, m.deleted_at
+       FROM memory_entities me
+       JOIN memories m ON m.id = me.memoryId
+       WHERE me.entityId = ? AND me.userId = ?
+         AND m.deleted_at IS NULL
+         AND (m.expires_at IS NULL OR m.expires_at > ?)
+       ORDER BY m.created_at DESC
+       LIMIT ?`
+    )
+      .bind(entityId, userId, Date.now(), limit)
+      .all<MemoryRecord>();
+
+    return result.results ?? [];
+  }
+
+  // Relations in both directions, skipping those whose memory is trashed or expired
+  async getEntityNeighbours(
+    entityId: string,
+    userId: string,
+    relation?: string
+  ): Promise<EntityNeighbour[]> {
+    const relationFilter = relation ? "AND r.type = ?" : "";
+    const relationBinds = relation ? [relation] : [];
+    const now = Date.now();
+
+    const result = await this.env.DB.prepare(
+      `SELECT r.type as relation, r.direction, r.memoryId, e.id, e.name, e.type
+       FROM (
+         SELECT type, 'out' as direction, target_id as other_id, memoryId FROM relations
+         WHERE source_id = ? AND userId = ?
+         UNION ALL
+         SELECT type, 'in' as direction, source_id as other_id, memoryId FROM relations
+         WHERE target_id = ? AND userId = ?
+       ) r
+       JOIN entities e ON e.id = r.other_id
+       JOIN memories m ON m.id = r.memoryId
+       WHERE m.deleted_at IS NULL
+         AND (m.expires_at IS NULL OR m.expires_at > ?)
+         ${relationFilter}
+       ORDER BY r.type ASC, e.name ASC`
+    )
+      .bind(entityId, userId, entityId, userId, now, ...relationBinds)
+      .all<{ relation: string; direction: "out" | "in"; memoryId: string; id: string; name: string; type: string }>();
+
+    return (result.results ?? []).map((r) => ({
+      relation: r.relation,
+      direction: r.direction,
+      entity: { id: r.id, name: r.name, type: r.type },
+      memoryId: r.memoryId,
+    }));
+  }
+
+  /* =====================================
+     API KEYS
+  ===================================== */
+
+  async createApiKey(params: {
+    userId: string;
+    name: string;
+    keyHash: string;
+    keyPrefix: string;
+    scopes: ApiKeyScope[];
+  }): Promise<string> {
+    const id = uuidv4();
+
+    await this.env.DB.prepare(
+      `INSERT INTO api_keys
+       (id, userId, name, key_hash, key_prefix, scopes, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+      .bind(
+        id,
+        params.userId,
+        params.name,
+        params.keyHash,
+        params.keyPrefix,
+        params.scopes.join(","),
+        Date.now()
+      )
+      .run();
+
+    return id;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeyRecord | null> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, userId, name, key_prefix, scopes, created_at, last_used_at, revoked_at
+       FROM api_keys
+       WHERE key_hash = ? AND revoked_at IS NULL
+       LIMIT 1`
+    )
+      .bind(keyHash)
+      .all<ApiKeyRecord>();
+
+    return result.results?.[0] ?? null;
+  }
+
+  async listApiKeys(userId: string): Promise<ApiKeyRecord[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, userId, name, key_prefix, scopes, created_at, last_used_at, revoked_at
+       FROM api_keys
+       WHERE userId = ?
+       ORDER BY created_at DESC`
+    )
+      .bind(userId)
+      .all<ApiKeyRecord>();
+
+    return result.results ?? [];
+  }
+
+  // false once the key is revoked; OAuth grants it approved stop working with it
+  async isApiKeyActive(keyId: string, userId: string): Promise<boolean> {
+    const result = await this.env.DB.prepare(
+      `SELECT 1 FROM api_keys
+       WHERE id = ? AND userId = ? AND revoked_at IS NULL
+       LIMIT 1`
+    )
+      .bind(keyId, userId)
+      .first();
+
+    return result !== null;
+  }
+
+  async revokeApiKey(keyId: string, userId: string): Promise<boolean> {
+    const result = await this.env.DB.prepare(
+      `UPDATE api_keys
+       SET revoked_at = ?
+       WHERE id = ? AND userId = ? AND revoked_at IS NULL`
+    )
+      .bind(Date.now(), keyId, userId)
       .run();
 
     return (result.meta?.changes ?? 0) > 0;
   }
 
-  async clearAllMemories(userId: string, tier?: MemoryTier): Promise<number> {
-    const result = tier
-      ? await this.env.DB.prepare(
-        `DELETE FROM memories
-         WHERE userId = ? AND tier = ?`
-      )
-        .bind(userId, tier)
-        .run()
-      : await this.env.DB.prepare(
-        `DELETE FROM memories
-         WHERE userId = ?`
+  async touchApiKey(keyId: string): Promise<void> {
+    await this.env.DB.prepare(
+      "UPDATE api_keys SET last_used_at = ? WHERE id = ?"
+    )
+      .bind(Date.now(), keyId)
+      .run();
+  }
+
+  /* =====================================
+     EXPIRY
+  ===================================== */
+
+  async getExpiredMemoryIds(before: number, limit: number): Promise<string[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT id FROM memories
+       WHERE expires_at IS NOT NULL AND expires_at <= ?
+         AND deleted_at IS NULL
+       ORDER BY expires_at ASC
+       LIMIT ?`
+    )
+      .bind(before, limit)
+      .all<{ id: string }>();
+
+    return (result.results ?? []).map((r) => r.id);
+  }
+
+  async deleteMemoriesByIds(ids: string[]): Promise<number> {
+    let deleted = 0;
+
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const result = await this.env.DB.prepare(
+        `DELETE FROM memories WHERE id IN (${placeholders})`
       )
-        .bind(userId)
+        .bind(...chunk)
         .run();
 
+      deleted += result.meta?.changes ?? 0;
+    }
+
+    return deleted;
+  }
+
+  // Trashes memories merged into another one, which supersedes them, so their
+  // tags and history survive and a restore brings them back behind it
+  async retireMemories(userId: string, ids: string[], supersededBy: string): Promise<number> {
+    const now = Date.now();
+    let retired = 0;
+
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      const scope = `userId = ? AND id IN (${placeholders}) AND deleted_at IS NULL`;
+
+      // Outbox and links first, while the rows they select from are still live
+      const [, , result] = await this.env.DB.batch([
+        this.env.DB.prepare(
+          `INSERT INTO index_outbox (id, memoryId, userId, operation, created_at)
+           SELECT lower(hex(randomblob(16))), id, userId, 'delete', ?
+           FROM memories
+           WHERE ${scope}`
+        ).bind(now, userId, ...chunk),
+        this.env.DB.prepare(
+          `INSERT OR IGNORE INTO memory_links (id, userId, source_id, target_id, type, created_at, created_by)
+           SELECT lower(hex(randomblob(16))), userId, ?, id, 'supersedes', ?, 'consolidation'
+           FROM memories
+           WHERE ${scope}`
+        ).bind(supersededBy, now, userId, ...chunk),
+        this.env.DB.prepare(
+          `UPDATE memories SET deleted_at = ? WHERE ${scope}`
+        ).bind(now, userId, ...chunk),
+      ]);
+
+      retired += result.meta?.changes ?? 0;
+    }
+
+    return retired;
+  }
+
+  private defaultShortTtlSeconds(): number {
+    return Number(this.env.SHORT_MEMORY_TTL_SECONDS) || DEFAULT_SHORT_MEMORY_TTL_SECONDS;
+  }
+
+  /* =====================================
+     TRASH
+  ===================================== */
+
+  // Most recently deleted first
+  async getTrashedMemories(userId: string, limit: number = 50): Promise<MemoryRecord[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, userId, tier, content, importance, source, created_at, updated_at, updated_by, expires_at,
+              access_count, last_accessed_at, index_status, deleted_at
+       FROM memories
+       WHERE userId = ? AND deleted_at IS NOT NULL
+       ORDER BY deleted_at DESC
+       LIMIT ?`
+    )
+      .bind(userId, limit)
+      .all<MemoryRecord>();
+
+    return result.results ?? [];
+  }
+
+  // Restores one trashed memory, or the whole trash when memoryId is omitted.
+  // Restored memories count against the quota again and are re-indexed
+  async restoreMemories(userId: string, memoryId?: string): Promise<number> {
+    const scope = memoryId
+      ? "id = ? AND userId = ? AND deleted_at IS NOT NULL"
+      : "userId = ? AND deleted_at IS NOT NULL";
+    const binds = memoryId ? [memoryId, userId] : [userId];
+
+    const count = await this.env.DB.prepare(
+      `SELECT COUNT(*) as count FROM memories WHERE ${scope}`
+    )
+      .bind(...binds)
+      .all<{ count: number }>();
+
+    const restoring = Number(count.results?.[0]?.count) || 0;
+    if (!restoring) return 0;
+
+    await this.assertQuota(userId, restoring);
+
+    const [, , result] = await this.env.DB.batch([
+      this.env.DB.prepare(
+        `INSERT INTO index_outbox (id, memoryId, userId, operation, created_at)
+         SELECT lower(hex(randomblob(16))), id, userId, 'upsert', ?
+         FROM memories
+         WHERE ${scope}`
+      ).bind(Date.now(), ...binds),
+      // A restored chunk brings its document back, so search groups it again
+      this.env.DB.prepare(
+        `UPDATE documents SET deleted_at = NULL
+         WHERE deleted_at IS NOT NULL AND id IN (
+           SELECT documentId FROM document_chunks
+           WHERE memoryId IN (SELECT id FROM memories WHERE ${scope})
+         )`
+      ).bind(...binds),
+      this.env.DB.prepare(
+        `UPDATE memories SET deleted_at = NULL, index_status = 'pending'
+         WHERE ${scope}`
+      ).bind(...binds),
+    ]);
+
     return result.meta?.changes ?? 0;
   }
 
-  async updateMemory(
-    memoryId: string,
-    userId: string,
-    newContent: string
-  ) {
+  async getPurgeableTrashIds(deletedBefore: number, limit: number): Promise<string[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT id FROM memories
+       WHERE deleted_at IS NOT NULL AND deleted_at <= ?
+       ORDER BY deleted_at ASC
+       LIMIT ?`
+    )
+      .bind(deletedBefore, limit)
+      .all<{ id: string }>();
+
+    return (result.results ?? []).map((r) => r.id);
+  }
+
+  /* =====================================
+     CONSOLIDATION
+  ===================================== */
+
+  async getUsersWithShortMemories(
+    minCount: number,
+    limit: number
+  ): Promise<string[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT userId, COUNT(*) as count
+       FROM memories
+       WHERE tier = 'short' AND deleted_at IS NULL
+         AND (expires_at IS NULL OR expires_at > ?)
+       GROUP BY userId
+       HAVING count >= ?
+       ORDER BY count DESC
+       LIMIT ?`
+    )
+      .bind(Date.now(), minCount, limit)
+      .all<{ userId: string; count: number }>();
+
+    return (result.results ?? []).map((r) => r.userId);
+  }
+
+  /* =====================================
+     INDEXING OUTBOX
+  ===================================== */
+
+  async getUndispatchedOutbox(userId: string, limit: number): Promise<OutboxEntry[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, memoryId, userId, operation
+       FROM index_outbox
+       WHERE userId = ? AND dispatched_at IS NULL
+       ORDER BY created_at ASC
+       LIMIT ?`
+    )
+      .bind(userId, limit)
+      .all<OutboxEntry>();
+
+    return result.results ?? [];
+  }
+
+  // Entries never sent, or sent so long ago that the message must have been lost
+  async getStaleOutbox(
+    createdBefore: number,
+    dispatchedBefore: number,
+    limit: number
+  ): Promise<OutboxEntry[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT id, memoryId, userId, operation
+       FROM index_outbox
+       WHERE (dispatched_at IS NULL AND created_at <= ?)
+          OR dispatched_at <= ?
+       ORDER BY created_at ASC
+       LIMIT ?`
+    )
+      .bind(createdBefore, dispatchedBefore, limit)
+      .all<OutboxEntry>();
+
+    return result.results ?? [];
+  }
+
+  async markOutboxDispatched(ids: string[]): Promise<void> {
+    if (!ids.length) return;
+
+    const placeholders = ids.map(() => "?").join(", ");
+    await this.env.DB.prepare(
+      `UPDATE index_outbox SET dispatched_at = ? WHERE id IN (${placeholders})`
+    )
+      .bind(Date.now(), ...ids)
+      .run();
+  }
+
+  // A newer entry for the same memory keeps it pending until that one is done
+  async hasQueuedUpsert(memoryId: string): Promise<boolean> {
+    const result = await this.env.DB.prepare(
+      `SELECT 1 FROM index_outbox WHERE memoryId = ? AND operation = 'upsert' LIMIT 1`
+    )
+      .bind(memoryId)
+      .first();
+
+    return result !== null;
+  }
+
+  async completeOutboxEntry(entry: OutboxEntry): Promise<void> {
+    // A metadata entry only finishes what an earlier upsert started; it never clears a failed index
+    const pendingOnly = entry.operation === "metadata" ? "AND index_status = 'pending'" : "";
+
+    await this.env.DB.batch([
+      this.env.DB.prepare("DELETE FROM index_outbox WHERE id = ?").bind(entry.id),
+      this.env.DB.prepare(
+        `UPDATE memories SET index_status = 'indexed'
+         WHERE id = ? ${pendingOnly}
+           AND NOT EXISTS (SELECT 1 FROM index_outbox WHERE memoryId = ?)`
+      ).bind(entry.memoryId, entry.memoryId),
+    ]);
+  }
+
+  // A failed upsert or metadata update marks the row; a failed delete is for a memory that is already gone or trashed
+  async deadLetterOutboxEntry(entry: OutboxEntry, error: string, attempts: number): Promise<void> {
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        `INSERT OR REPLACE INTO index_dead_letters
+         (id, memoryId, userId, operation, error, attempts, failed_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).bind(entry.id, entry.memoryId, entry.userId, entry.operation, error, attempts, Date.now()),
+      this.env.DB.prepare("DELETE FROM index_outbox WHERE id = ?").bind(entry.id),
+      ...(entry.operation !== "delete"
+        ? [this.env.DB.prepare("UPDATE memories SET index_status = 'failed' WHERE id = ?").bind(entry.memoryId)]
+        : []),
+    ]);
+  }
+
+  // Moves dead-lettered vector deletes back into the outbox; returns how many
+  async requeueDeadLetterDeletes(failedBefore: number, limit: number): Promise<number> {
+    const [queued] = await this.env.DB.batch([
+      this.env.DB.prepare(
+        `INSERT OR IGNORE INTO index_outbox (id, memoryId, userId, operation, created_at)
+         SELECT id, memoryId, userId, operation, ?
+         FROM index_dead_letters
+         WHERE operation = 'delete' AND failed_at <= ?
+         ORDER BY failed_at ASC
+         LIMIT ?`
+      ).bind(Date.now(), failedBefore, limit),
+      this.env.DB.prepare(
+        `DELETE FROM index_dead_letters
+         WHERE operation = 'delete' AND id IN (SELECT id FROM index_outbox)`
+      ),
+    ]);
+
+    return queued.meta?.changes ?? 0;
+  }
+
+  async setIndexStatus(memoryIds: string[], status: IndexStatus): Promise<void> {
+    for (let i = 0; i < memoryIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = memoryIds.slice(i, i + ID_CHUNK_SIZE);
+      const placeholders = chunk.map(() => "?").join(", ");
+      await this.env.DB.prepare(
+        `UPDATE memories SET index_status = ? WHERE id IN (${placeholders})`
+      )
+        .bind(status, ...chunk)
+        .run();
+    }
+  }
+
+  // Selects from memories so an entry is only queued for a live row
+  private outboxStatement(memoryId: string, userId: string, operation: IndexOperation) {
+    return this.env.DB.prepare(
+      `INSERT INTO index_outbox (id, memoryId, userId, operation, created_at)
+       SELECT lower(hex(randomblob(16))), id, userId, ?, ?
+       FROM memories
+       WHERE id = ? AND userId = ? AND deleted_at IS NULL`
+    ).bind(operation, Date.now(), memoryId, userId);
+  }
+
+  private tagStatements(memoryId: string, userId: string, tags: string[]) {
     const now = Date.now();
 
+    return normalizeTags(tags).map((tag) =>
+      this.env.DB.prepare(
+        `INSERT OR IGNORE INTO memory_tags (memoryId, userId, tag, created_at)
+         VALUES (?, ?, ?, ?)`
+      ).bind(memoryId, userId, tag, now)
+    );
+  }
+
+  /* =====================================
+     RECONCILIATION
+  ===================================== */
+
+  // Random so repeated cron runs eventually cover every user
+  async sampleUserIds(limit: number): Promise<string[]> {
+    const result = await this.env.DB.prepare(
+      `SELECT userId FROM memories
+       GROUP BY userId
+       ORDER BY RANDOM()
+       LIMIT ?`
+    )
+      .bind(limit)
+      .all<{ userId: string }>();
+
+    return (result.results ?? []).map((r) => r.userId);
+  }
+
+  /* =====================================
+     QUOTAS
+  ===================================== */
+
+  async getMemoryQuota(userId: string): Promise<number> {
     const result = await this.env.DB.prepare(
-      `UPDATE memories
-       SET content = ?, updated_at = ?
-       WHERE id = ? AND userId = ?`
+      `SELECT max_memories
+       FROM user_quotas
+       WHERE userId = ?
+       LIMIT 1`
+    )
+      .bind(userId)
+      .all<{ max_memories: number }>();
+
+    const override = result.results?.[0]?.max_memories;
+    if (override !== undefined) return Number(override);
+
+    return Number(this.env.MAX_MEMORIES_PER_USER) || DEFAULT_MAX_MEMORIES_PER_USER;
+  }
+
+  async setMemoryQuota(userId: string, maxMemories: number | null): Promise<void> {
+    if (maxMemories === null) {
+      await this.env.DB.prepare("DELETE FROM user_quotas WHERE userId = ?")
+        .bind(userId)
+        .run();
+      return;
+    }
+
+    await this.env.DB.prepare(
+      `INSERT INTO user_quotas (userId, max_memories, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(userId) DO UPDATE SET
+         max_memories = excluded.max_memories,
+         updated_at = excluded.updated_at`
     )
-      .bind(newContent, now, memoryId, userId)
+      .bind(userId, maxMemories, Date.now())
       .run();
+  }
 
-    if (!result.meta || result.meta.changes === 0) {
-      throw new Error("Memory not found");
+  private async assertQuota(userId: string, adding: number): Promise<void> {
+    const [limit, current] = await Promise.all([
+      this.getMemoryQuota(userId),
+      this.getMemoryCount(userId),
+    ]);
+
+    if (current + adding > limit) {
+      throw new QuotaExceededError(limit, current);
+    }
+  }
+  /* =====================================
+     SETTINGS
+  ===================================== */
+
+  // Raw JSON as stored; validation belongs to the caller
+  async getMemoryConfigOverrides(userId: string): Promise<unknown> {
+    const result = await this.env.DB.prepare(
+      `SELECT config
+       FROM user_settings
+       WHERE userId = ?
+       LIMIT 1`
+    )
+      .bind(userId)
+      .all<{ config: string }>();
+
+    const row = result.results?.[0];
+    return row ? JSON.parse(row.config) : null;
+  }
+
+  async setMemoryConfigOverrides(userId: string, overrides: object | null): Promise<void> {
+    if (overrides === null) {
+      await this.env.DB.prepare("DELETE FROM user_settings WHERE userId = ?")
+        .bind(userId)
+        .run();
+      return;
+    }
+
+    await this.env.DB.prepare(
+      `INSERT INTO user_settings (userId, config, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(userId) DO UPDATE SET
+         config = excluded.config,
+         updated_at = excluded.updated_at`
+    )
+      .bind(userId, JSON.stringify(overrides), Date.now())
+      .run();
+  }
+}
+
+/* =====================================
+   HELPERS
+===================================== */
+
+// Quotes each term so user input can never be parsed as FTS5 syntax;
+// terms are OR'd and BM25 rewards rows that match more of them
+function toFtsQuery(query: string): string {
+  return query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(" OR ");
+}
+
+type ConflictRow = Omit<MemoryConflict, "memory" | "conflicting"> & {
+  memory_id: string;
+  memory_tier: MemoryTier | null;
+  memory_content: string | null;
+  conflicting_id: string;
+  conflicting_tier: MemoryTier | null;
+  conflicting_content: string | null;
+};
+
+// Left joins, so resolved conflicts outlive the memories they were about
+const CONFLICT_SELECT = `SELECT c.id, c.userId, c.reason, c.status, c.resolution, c.created_at, c.resolved_at, c.resolved_by,
+         c.memoryId as memory_id, m.tier as memory_tier, m.content as memory_content,
+         c.conflictingId as conflicting_id, o.tier as conflicting_tier, o.content as conflicting_content
+       FROM memory_conflicts c
+       LEFT JOIN memories m ON m.id = c.memoryId
+       LEFT JOIN memories o ON o.id = c.conflictingId`;
+
+function toConflict(row: ConflictRow): MemoryConflict {
+  const { memory_id, memory_tier, memory_content, conflicting_id, conflicting_tier, conflicting_content, ...conflict } = row;
+  return {
+    ...conflict,
+    memory: { id: memory_id, tier: memory_tier, content: memory_content },
+    conflicting: { id: conflicting_id, tier: conflicting_tier, content: conflicting_content },
+  };
+}
+
+// SQL sort key per MemorySort, and how to read it off a row for the cursor
+const SORT_KEYS: Record<MemorySort, {
+  key: string;
+  direction: "ASC" | "DESC";
+  value: (memory: MemoryRecord) => number;
+}> = {
+  newest: { key: "created_at", direction: "DESC", value: (m) => m.created_at },
+  oldest: { key: "created_at", direction: "ASC", value: (m) => m.created_at },
+  importance: { key: "importance", direction: "DESC", value: (m) => m.importance },
+  // Must stay identical to the idx_memories_user_updated expression
+  updated: { key: "COALESCE(updated_at, created_at)", direction: "DESC", value: (m) => m.updated_at ?? m.created_at },
+};
+
+// Opaque to callers: base64url JSON of the sort, the last sort key and the last id
+export function encodeCursor(sort: MemorySort, value: number, id: string): string {
+  return btoa(JSON.stringify({ s: sort, v: value, id }))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string, sort: MemorySort): { value: number; id: string } {
+  try {
+    const decoded = JSON.parse(atob(cursor.replace(/-/g, "+").replace(/_/g, "/")));
+    if (decoded.s === sort && typeof decoded.v === "number" && typeof decoded.id === "string") {
+      return { value: decoded.v, id: decoded.id };
     }
+  } catch {
+    // falls through to the error below
+  }
+  throw new InvalidCursorError();
+}
+
+// Extra AND conditions for MemoryFilters; prefix is the table alias, e.g. "m."
+function filterClause(
+  filters: MemoryFilters,
+  prefix: string = ""
+): { sql: string; binds: (string | number)[] } {
+  const conditions: string[] = [];
+  const binds: (string | number)[] = [];
+
+  if (filters.source !== undefined) {
+    conditions.push(`${prefix}source = ?`);
+    binds.push(filters.source);
+  }
+  if (filters.minImportance !== undefined) {
+    conditions.push(`${prefix}importance >= ?`);
+    binds.push(filters.minImportance);
+  }
+  if (filters.createdAfter !== undefined) {
+    conditions.push(`${prefix}created_at >= ?`);
+    binds.push(filters.createdAfter);
+  }
+  if (filters.createdBefore !== undefined) {
+    conditions.push(`${prefix}created_at < ?`);
+    binds.push(filters.createdBefore);
   }
+  const tags = normalizeTags(filters.tags ?? []);
+  if (tags.length) {
+    conditions.push(
+      `(SELECT COUNT(*) FROM memory_tags t
+        WHERE t.memoryId = ${prefix}id AND t.tag IN (${tags.map(() => "?").join(", ")})) = ?`
+    );
+    binds.push(...tags, tags.length);
+  }
+
+  return {
+    sql: conditions.map((c) => ` AND ${c}`).join(""),
+    binds,
+  };
+}
+
+// Lowercased, trimmed and de-duplicated so "Work" and "work " are one tag
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter(Boolean);
+  return [...new Set(normalized)];
 }
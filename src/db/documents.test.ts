@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { chunkText, estimateTokens, MAX_DOCUMENT_CHARS, MAX_DOCUMENT_CHUNKS } from "./documents";
+
+describe("estimateTokens", () => {
+  it("counts words by length and punctuation marks singly", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("tea")).toBe(1);
+    expect(estimateTokens("hello world.")).toBe(5);
+  });
+});
+
+describe("chunkText", () => {
+  it("keeps short text in one chunk", () => {
+    expect(chunkText("One sentence. Another one.")).toEqual(["One sentence. Another one."]);
+  });
+
+  it("returns nothing for blank text", () => {
+    expect(chunkText("  \n\n ")).toEqual([]);
+  });
+
+  it("keeps every chunk within the token limit", () => {
+    const text = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} is here.`).join(" ");
+    const chunks = chunkText(text, { maxTokens: 30, overlapTokens: 10 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) expect(estimateTokens(chunk)).toBeLessThanOrEqual(30);
+  });
+
+  it("breaks at sentence boundaries", () => {
+    const chunks = chunkText("Alpha beta gamma. Delta epsilon zeta. Eta theta iota.", { maxTokens: 8, overlapTokens: 0 });
+    expect(chunks).toEqual(["Alpha beta gamma.", "Delta epsilon zeta.", "Eta theta iota."]);
+  });
+
+  it("starts each chunk with the end of the one before", () => {
+    const chunks = chunkText("Alpha beta gamma. Delta epsilon zeta. Eta theta iota.", { maxTokens: 12, overlapTokens: 6 });
+    expect(chunks).toEqual(["Alpha beta gamma. Delta epsilon zeta.", "Delta epsilon zeta. Eta theta iota."]);
+  });
+
+  it("keeps paragraph breaks inside a chunk", () => {
+    expect(chunkText("First paragraph.\n\nSecond paragraph.")).toEqual(["First paragraph.\n\nSecond paragraph."]);
+  });
+
+  it("cuts a sentence longer than a chunk between words", () => {
+    const sentence = Array.from({ length: 30 }, (_, i) => `w${i}`).join(" ");
+    const chunks = chunkText(sentence, { maxTokens: 10, overlapTokens: 0 });
+
+    expect(chunks.join(" ")).toBe(sentence);
+    for (const chunk of chunks) expect(estimateTokens(chunk)).toBeLessThanOrEqual(10);
+  });
+
+  it("cuts a word longer than a chunk by length", () => {
+    const chunks = chunkText("x".repeat(100), { maxTokens: 10, overlapTokens: 0 });
+    expect(chunks).toEqual(["x".repeat(40), "x".repeat(40), "x".repeat(20)]);
+  });
+
+  it("fits ordinary prose of the maximum length within the chunk cap", () => {
+    const sentence = "The quarterly planning meeting moved to Thursday afternoon. ";
+    const text = sentence.repeat(Math.floor(MAX_DOCUMENT_CHARS / sentence.length));
+    expect(chunkText(text).length).toBeLessThanOrEqual(MAX_DOCUMENT_CHUNKS);
+  });
+});
@@ -0,0 +1,180 @@
+import { DB, type CreateDocumentInput } from "./db";
+import { dispatchOutbox } from "../jobs/indexing";
+
+/* ================================
+   CONFIG
+================================ */
+
+// Small enough for a focused vector, well inside bge-m3's input limit
+export const CHUNK_TOKENS = 400;
+// Carried from the end of one chunk into the next, so a fact split at a boundary is found whole
+export const CHUNK_OVERLAP_TOKENS = 50;
+// A document and all its chunks are written in one D1 batch, about two statements per chunk
+export const MAX_DOCUMENT_CHUNKS = 100;
+
+// Word pieces and single punctuation marks
+const TOKEN_PIECES = /[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu;
+// bge-m3's subword vocabulary averages about four characters per token
+const CHARS_PER_TOKEN = 4;
+// Counting spaces and per-word rounding, prose comes to about three characters per
+// estimated token, so prose this long fits in MAX_DOCUMENT_CHUNKS. Dense text
+// (code, tables) can still need more and is rejected after chunking
+export const MAX_DOCUMENT_CHARS = MAX_DOCUMENT_CHUNKS * (CHUNK_TOKENS - CHUNK_OVERLAP_TOKENS) * 3;
+
+/* ================================
+   TYPES
+================================ */
+
+export type ChunkOptions = {
+  maxTokens?: number;
+  overlapTokens?: number;
+};
+
+export class DocumentTooLargeError extends Error {
+  constructor(readonly chunks: number) {
+    super(`Document too large: ${chunks} chunks, at most ${MAX_DOCUMENT_CHUNKS} allowed`);
+    this.name = "DocumentTooLargeError";
+  }
+}
+
+type Unit = {
+  text: string;
+  tokens: number;
+  // first unit of a paragraph, joined with a blank line
+  paragraph: boolean;
+};
+
+/* ================================
+   CHUNKING
+================================ */
+
+// An estimate, not the model's tokenizer: close enough to size chunks by
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(TOKEN_PIECES) ?? []) {
+    tokens += Math.ceil(piece.length / CHARS_PER_TOKEN);
+  }
+  return tokens;
+}
+
+/**
+ * Splits text into chunks of at most maxTokens estimated tokens. Chunks end
+ * at paragraph and sentence boundaries where possible, and each one starts
+ * with the last sentences of the previous chunk, up to overlapTokens.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const maxTokens = options.maxTokens ?? CHUNK_TOKENS;
+  const overlapBudget = Math.min(options.overlapTokens ?? CHUNK_OVERLAP_TOKENS, maxTokens - 1);
+
+  const chunks: string[] = [];
+  let current: Unit[] = [];
+  let tokens = 0;
+
+  for (const unit of toUnits(text, maxTokens)) {
+    if (current.length && tokens + unit.tokens > maxTokens) {
+      chunks.push(joinUnits(current));
+
+      const overlap: Unit[] = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const next = overlapTokens + current[i].tokens;
+        if (next > overlapBudget || next + unit.tokens > maxTokens) break;
+        overlap.unshift(current[i]);
+        overlapTokens = next;
+      }
+
+      current = overlap;
+      tokens = overlapTokens;
+    }
+
+    current.push(unit);
+    tokens += unit.tokens;
+  }
+
+  if (current.length) chunks.push(joinUnits(current));
+  return chunks;
+}
+
+/* ================================
+   DOCUMENTS
+================================ */
+
+/**
+ * Stores a document whole and as one long-term memory per chunk, which the
+ * indexing queue embeds like any other memory. Search groups chunk hits back
+ * under their document.
+ */
+export async function addDocument(
+  input: CreateDocumentInput,
+  env: Env
+): Promise<{ documentId: string; memoryIds: string[] }> {
+  const chunks = chunkText(input.content);
+  if (chunks.length > MAX_DOCUMENT_CHUNKS) throw new DocumentTooLargeError(chunks.length);
+
+  const db = await DB.getInstance(env);
+  const stored = await db.createDocument(input, chunks);
+  await dispatchOutbox(input.userId, env);
+
+  return stored;
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+// Sentences grouped by paragraph; a sentence longer than a chunk is cut between words
+function toUnits(text: string, maxTokens: number): Unit[] {
+  const units: Unit[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    let first = true;
+
+    for (const sentence of paragraph.split(/(?<=[.!?])\s+|\n/)) {
+      for (const piece of splitLong(sentence.trim(), maxTokens)) {
+        units.push({ text: piece, tokens: estimateTokens(piece), paragraph: first });
+        first = false;
+      }
+    }
+  }
+
+  return units;
+}
+
+function splitLong(sentence: string, maxTokens: number): string[] {
+  if (!sentence) return [];
+  if (estimateTokens(sentence) <= maxTokens) return [sentence];
+
+  // A single word longer than a chunk (a URL, an encoded blob) is cut by length,
+  // which can leave a piece a few tokens over when it mixes in punctuation
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const words = sentence.split(/\s+/).flatMap((word) => {
+    if (estimateTokens(word) <= maxTokens) return [word];
+    const parts: string[] = [];
+    for (let i = 0; i < word.length; i += maxChars) parts.push(word.slice(i, i + maxChars));
+    return parts;
+  });
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let tokens = 0;
+
+  for (const word of words) {
+    const wordTokens = estimateTokens(word);
+    if (current.length && tokens + wordTokens > maxTokens) {
+      pieces.push(current.join(" "));
+      current = [];
+      tokens = 0;
+    }
+    current.push(word);
+    tokens += wordTokens;
+  }
+
+  if (current.length) pieces.push(current.join(" "));
+  return pieces;
+}
+
+function joinUnits(units: Unit[]): string {
+  return units
+    .map((unit, i) => i === 0 ? unit.text : `${unit.paragraph ? "\n\n" : " "}${unit.text}`)
+    .join("");
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { normalizeEntityName, normalizeRelationType, parseGraph } from "./graph";
+
+describe("normalizeEntityName", () => {
+  it("folds case, spacing, quotes and a leading article", () => {
+    expect(normalizeEntityName("The  Acme Corp.")).toBe("acme corp");
+    expect(normalizeEntityName("“Acme Corp”")).toBe("acme corp");
+  });
+});
+
+describe("normalizeRelationType", () => {
+  it("converts to snake_case", () => {
+    expect(normalizeRelationType("Works With")).toBe("works_with");
+    expect(normalizeRelationType("  lives-in! ")).toBe("lives_in");
+  });
+});
+
+describe("parseGraph", () => {
+  it("parses entities and relations", () => {
+    const graph = parseGraph(JSON.stringify({
+      entities: [{ name: "Alice", type: "Person" }, { name: "Acme Corp", type: "organisation" }],
+      relations: [{ source: "Alice", relation: "Works At", target: "Acme Corp" }],
+    }));
+
+    expect(graph).toEqual({
+      entities: [
+        { name: "Alice", normalizedName: "alice", type: "person" },
+        { name: "Acme Corp", normalizedName: "acme corp", type: "organization" },
+      ],
+      relations: [{ source: "alice", target: "acme corp", type: "works_at" }],
+    });
+  });
+
+  it("finds the JSON inside prose or a code fence", () => {
+    const graph = parseGraph('Here you go:\n```json\n{"entities": [{"name": "Berlin", "type": "place"}], "relations": []}\n```');
+    expect(graph?.entities).toEqual([{ name: "Berlin", normalizedName: "berlin", type: "place" }]);
+  });
+
+  it("returns null for output that is not JSON", () => {
+    expect(parseGraph("No entities found.")).toBeNull();
+    expect(parseGraph("{not json}")).toBeNull();
+  });
+
+  it("merges entities that normalize to the same name", () => {
+    const graph = parseGraph(JSON.stringify({
+      entities: [{ name: "Acme Corp", type: "organization" }, { name: "the acme corp", type: "place" }],
+      relations: [],
+    }));
+    expect(graph?.entities).toEqual([{ name: "Acme Corp", normalizedName: "acme corp", type: "organization" }]);
+  });
+
+  it("types unknown entity types as other", () => {
+    const graph = parseGraph('{"entities": [{"name": "Rust", "type": "language"}], "relations": []}');
+    expect(graph?.entities[0].type).toBe("other");
+  });
+
+  it("adds relation endpoints missing from the entities untyped", () => {
+    const graph = parseGraph(JSON.stringify({
+      entities: [{ name: "Alice", type: "person" }],
+      relations: [{ source: "Alice", relation: "lives in", target: "Berlin" }],
+    }));
+
+    expect(graph?.entities).toContainEqual({ name: "Berlin", normalizedName: "berlin", type: "other" });
+    expect(graph?.relations).toEqual([{ source: "alice", target: "berlin", type: "lives_in" }]);
+  });
+
+  it("drops self-relations, blank relation types and duplicates", () => {
+    const graph = parseGraph(JSON.stringify({
+      entities: [{ name: "Alice" }, { name: "Bob" }],
+      relations: [
+        { source: "Alice", relation: "knows", target: "Alice" },
+        { source: "Alice", relation: "!!", target: "Bob" },
+        { source: "Alice", relation: "knows", target: "Bob" },
+        { source: "alice", relation: "Knows", target: "bob" },
+      ],
+    }));
+
+    expect(graph?.relations).toEqual([{ source: "alice", target: "bob", type: "knows" }]);
+  });
+
+  it("tolerates missing or malformed lists", () => {
+    expect(parseGraph('{"entities": "none"}')).toEqual({ entities: [], relations: [] });
+  });
+
+  it("caps the entities kept from one memory", () => {
+    const entities = Array.from({ length: 30 }, (_, i) => ({ name: `Entity ${i}` }));
+    expect(parseGraph(JSON.stringify({ entities, relations: [] }))?.entities).toHaveLength(20);
+  });
+});
@@ -0,0 +1,219 @@
+import { z } from "zod";
+import { DB, type EntityNeighbour, type EntityRecord, type MemoryGraph, type MemoryRecord } from "./db";
+import { loadMemoryConfig } from "./settings";
+import { extractGraph } from "../ai/text";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const ENTITY_TYPES = ["person", "place", "organization", "date", "other"] as const;
+
+export type EntityType = (typeof ENTITY_TYPES)[number];
+
+// Keeps one memory's extraction, and the D1 batch that stores it, small
+const MAX_ENTITIES_PER_MEMORY = 20;
+const MAX_RELATIONS_PER_MEMORY = 20;
+const MAX_NAME_LENGTH = 100;
+const MAX_RELATION_LENGTH = 48;
+
+export const MAX_TRAVERSAL_DEPTH = 3;
+// Bounds the D1 round trips of one traversal; each expanded entity is one query
+const MAX_EXPANDED_ENTITIES = 25;
+
+/* ================================
+   TYPES
+================================ */
+
+export type TraversalStep = EntityNeighbour & {
+  // hops from the starting entity, starting at 1
+  depth: number;
+  // entity this step was reached from
+  from: Pick<EntityRecord, "id" | "name">;
+};
+
+export type TraversalOptions = {
+  // only follow relations of this type
+  relation?: string;
+  depth?: number;
+};
+
+// Loose on purpose: the model's output is cleaned up after parsing
+const extractedGraphSchema = z.object({
+  entities: z.array(z.object({
+    name: z.string(),
+    type: z.string().optional(),
+  })).catch([]),
+  relations: z.array(z.object({
+    source: z.string(),
+    relation: z.string(),
+    target: z.string(),
+  })).catch([]),
+});
+
+/* ================================
+   NORMALIZATION
+================================ */
+
+// The de-duplication key: "The  Acme Corp." and "acme corp" are one entity
+export function normalizeEntityName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^["'“”‘’(]+|["'“”‘’).,;:!?]+$/g, "")
+    .replace(/^the /, "")
+    .trim();
+}
+
+// "Works With" -> works_with
+export function normalizeRelationType(relation: string): string {
+  return relation
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, MAX_RELATION_LENGTH);
+}
+
+function toEntityType(type: string | undefined): EntityType {
+  const normalized = (type ?? "").toLowerCase().trim();
+  if (normalized === "organisation") return "organization";
+  return (ENTITY_TYPES as readonly string[]).includes(normalized) ? normalized as EntityType : "other";
+}
+
+/* ================================
+   EXTRACTION
+================================ */
+
+/**
+ * Turns raw model output into a graph ready for D1: names trimmed and
+ * de-duplicated, relation types in snake_case, and relations only between
+ * entities of the same memory. Returns null when the output is not JSON.
+ */
+export function parseGraph(raw: string): MemoryGraph | null {
+  // The model sometimes wraps the JSON in prose or a code fence
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const parsed = extractedGraphSchema.safeParse(json);
+  if (!parsed.success) return null;
+
+  const entities = new Map<string, MemoryGraph["entities"][number]>();
+  const addEntity = (name: string, type?: string) => {
+    const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+    const normalizedName = normalizeEntityName(trimmed);
+    if (!normalizedName) return null;
+
+    if (!entities.has(normalizedName) && entities.size < MAX_ENTITIES_PER_MEMORY) {
+      entities.set(normalizedName, { name: trimmed, normalizedName, type: toEntityType(type) });
+    }
+    return entities.has(normalizedName) ? normalizedName : null;
+  };
+
+  for (const entity of parsed.data.entities) {
+    addEntity(entity.name, entity.type);
+  }
+
+  const relations = new Map<string, MemoryGraph["relations"][number]>();
+  for (const relation of parsed.data.relations) {
+    if (relations.size >= MAX_RELATIONS_PER_MEMORY) break;
+
+    // Endpoints the model forgot to list as entities are added untyped
+    const source = addEntity(relation.source);
+    const target = addEntity(relation.target);
+    const type = normalizeRelationType(relation.relation);
+    if (!source || !target || !type || source === target) continue;
+
+    relations.set(`${source}\u0000${type}\u0000${target}`, { source, target, type });
+  }
+
+  return { entities: [...entities.values()], relations: [...relations.values()] };
+}
+
+/**
+ * Rebuilds the graph entries of one memory from its current content. Runs in
+ * the indexing consumer, so every write and update refreshes the graph
+ * without slowing the request down.
+ */
+export async function indexMemoryGraph(memory: MemoryRecord, env: Env): Promise<void> {
+  const config = await loadMemoryConfig(memory.userId, env);
+  if (!config.graphExtraction) return;
+
+  // A document would cost one model call per chunk
+  const db = await DB.getInstance(env);
+  if (await db.isDocumentChunk(memory.id)) return;
+
+  const raw = await extractGraph(memory.content, env);
+  const graph = raw ? parseGraph(raw) : null;
+  // Leaves the previous extraction in place rather than wiping it on a bad response
+  if (!graph) throw new Error("Model did not return a valid graph");
+
+  await db.replaceMemoryGraph(memory.id, memory.userId, graph);
+}
+
+/* ================================
+   LOOKUP
+================================ */
+
+export async function findEntities(userId: string, query: string, env: Env, limit?: number): Promise<EntityRecord[]> {
+  const normalized = normalizeEntityName(query);
+  if (!normalized) return [];
+
+  const db = await DB.getInstance(env);
+  return db.findEntities(userId, normalized, limit);
+}
+
+// Accepts an entity ID or a name as the user would write it
+export async function resolveEntity(userId: string, entity: string, env: Env): Promise<EntityRecord | null> {
+  const db = await DB.getInstance(env);
+  return db.getEntity(userId, entity, normalizeEntityName(entity));
+}
+
+/**
+ * Breadth-first walk out from an entity, following relations in both
+ * directions. Each entity is expanded once, so cycles end the walk.
+ */
+export async function traverseNeighbours(
+  start: EntityRecord,
+  env: Env,
+  options: TraversalOptions = {}
+): Promise<TraversalStep[]> {
+  const db = await DB.getInstance(env);
+  const maxDepth = Math.min(Math.max(options.depth ?? 1, 1), MAX_TRAVERSAL_DEPTH);
+  const relation = options.relation ? normalizeRelationType(options.relation) : undefined;
+
+  const steps: TraversalStep[] = [];
+  const visited = new Set([start.id]);
+  let frontier: Array<Pick<EntityRecord, "id" | "name">> = [start];
+  let expanded = 0;
+
+  for (let depth = 1; depth <= maxDepth && frontier.length; depth++) {
+    const next: typeof frontier = [];
+
+    for (const from of frontier) {
+      if (expanded++ >= MAX_EXPANDED_ENTITIES) break;
+
+      for (const neighbour of await db.getEntityNeighbours(from.id, start.userId, relation)) {
+        steps.push({ ...neighbour, depth, from });
+
+        if (!visited.has(neighbour.entity.id)) {
+          visited.add(neighbour.entity.id);
+          next.push(neighbour.entity);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return steps;
+}
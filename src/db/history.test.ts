@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { diffWords } from "./history";
+
+describe("diffWords", () => {
+  it("leaves unchanged text alone", () => {
+    expect(diffWords("Prefers green tea", "Prefers green tea")).toBe("Prefers green tea");
+  });
+
+  it("marks added words", () => {
+    expect(diffWords("Prefers tea", "Prefers green tea")).toBe("Prefers {+green+} tea");
+  });
+
+  it("marks removed words", () => {
+    expect(diffWords("Prefers green tea", "Prefers tea")).toBe("Prefers [-green-] tea");
+  });
+
+  it("shows a replacement as a removal then an addition", () => {
+    expect(diffWords("Lives in Berlin now", "Lives in Paris now")).toBe("Lives in [-Berlin-] {+Paris+} now");
+  });
+
+  it("groups consecutive changes", () => {
+    expect(diffWords("Works at Acme Corp", "Works at Globex Inc")).toBe("Works at [-Acme Corp-] {+Globex Inc+}");
+  });
+
+  it("ignores differences in whitespace", () => {
+    expect(diffWords("Prefers  green\ntea", " Prefers green tea ")).toBe("Prefers green tea");
+  });
+
+  it("handles empty text on either side", () => {
+    expect(diffWords("", "Prefers tea")).toBe("{+Prefers tea+}");
+    expect(diffWords("Prefers tea", "")).toBe("[-Prefers tea-]");
+  });
+
+  it("replaces the whole text when it is too long to diff", () => {
+    const before = Array.from({ length: 600 }, (_, i) => `a${i}`).join(" ");
+    const after = Array.from({ length: 600 }, (_, i) => `b${i}`).join(" ");
+    expect(diffWords(before, after)).toBe(`[-${before}-] {+${after}+}`);
+  });
+});
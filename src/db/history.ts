@@ -0,0 +1,109 @@
+import type { MemoryRecord, MemoryVersion } from "./db";
+
+/* ================================
+   CONFIG
+================================ */
+
+// Word LCS is quadratic; past this many cells the diff is a plain replace
+const MAX_DIFF_CELLS = 250_000;
+
+/* ================================
+   TYPES
+================================ */
+
+export type HistoryEntry = {
+  version: number;
+  content: string;
+  actor: string | null;
+  updatedAt: number;
+  current: boolean;
+  // against the previous version, null for the first one
+  diff: string | null;
+};
+
+/* ================================
+   HISTORY
+================================ */
+
+// Oldest first, ending with the memory's current content as the newest version
+export function buildHistory(memory: MemoryRecord, versions: MemoryVersion[]): HistoryEntry[] {
+  const entries: HistoryEntry[] = versions.map(v => ({
+    version: v.version,
+    content: v.content,
+    actor: v.actor,
+    updatedAt: v.updated_at,
+    current: false,
+    diff: null,
+  }));
+
+  entries.push({
+    version: (versions.at(-1)?.version ?? 0) + 1,
+    content: memory.content,
+    actor: memory.updated_by ?? (versions.length ? null : memory.source),
+    updatedAt: memory.updated_at ?? memory.created_at,
+    current: true,
+    diff: null,
+  });
+
+  for (let i = 1; i < entries.length; i++) {
+    entries[i].diff = diffWords(entries[i - 1].content, entries[i].content);
+  }
+
+  return entries;
+}
+
+/* ================================
+   DIFF
+================================ */
+
+/**
+ * Word diff in git's --word-diff=plain style: [-removed-] and {+added+}.
+ * Memories are a sentence or two, so an LCS over words is cheap enough.
+ */
+export function diffWords(before: string, after: string): string {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return `[-${a.join(" ")}-] {+${b.join(" ")}+}`;
+  }
+
+  // lcs[i][j] = length of the LCS of a[i:] and b[j:]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: string[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    if (removed.length) out.push(`[-${removed.join(" ")}-]`);
+    if (added.length) out.push(`{+${added.join(" ")}+}`);
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      out.push(a[i]);
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+
+  return out.join(" ");
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { parseFacts } from "./ingest";
+
+const facts = (...items: unknown[]) => JSON.stringify({ facts: items });
+
+describe("parseFacts", () => {
+  it("parses facts", () => {
+    expect(parseFacts(facts({ content: "Prefers green tea", tier: "long", importance: 0.8, source: "user" }))).toEqual([
+      { content: "Prefers green tea", tier: "long", importance: 0.8, source: "conversation:user" },
+    ]);
+  });
+
+  it("finds the JSON inside prose or a code fence", () => {
+    const raw = "Sure:\n```json\n" + facts({ content: "Lives in Berlin" }) + "\n```";
+    expect(parseFacts(raw)?.map(f => f.content)).toEqual(["Lives in Berlin"]);
+  });
+
+  it("returns null for output that is not JSON", () => {
+    expect(parseFacts("Nothing worth remembering.")).toBeNull();
+    expect(parseFacts("{facts: [}")).toBeNull();
+  });
+
+  it("defaults to long-term, middling importance and the user as source", () => {
+    expect(parseFacts(facts({ content: "Has a dog named Rex", tier: "forever" }))).toEqual([
+      { content: "Has a dog named Rex", tier: "long", importance: 0.5, source: "conversation:user" },
+    ]);
+  });
+
+  it("reads short-term and assistant facts loosely", () => {
+    const [fact] = parseFacts(facts({ content: "Is debugging a build", tier: " Short ", source: "Assistant" }))!;
+    expect(fact.tier).toBe("short");
+    expect(fact.source).toBe("conversation:assistant");
+  });
+
+  it("clamps importance and accepts it as a string", () => {
+    const parsed = parseFacts(facts(
+      { content: "a", importance: 3 },
+      { content: "b", importance: -1 },
+      { content: "c", importance: "0.25" },
+    ));
+    expect(parsed?.map(f => f.importance)).toEqual([1, 0, 0.25]);
+  });
+
+  it("drops malformed and empty facts but keeps the rest", () => {
+    const parsed = parseFacts(facts({ content: 42 }, null, { content: "   " }, { content: "Speaks  Dutch\n" }));
+    expect(parsed?.map(f => f.content)).toEqual(["Speaks Dutch"]);
+  });
+
+  it("returns no facts when the list is missing", () => {
+    expect(parseFacts('{"memories": []}')).toEqual([]);
+  });
+
+  it("caps the number and length of facts", () => {
+    const parsed = parseFacts(facts(...Array.from({ length: 60 }, () => ({ content: "x".repeat(600) }))));
+    expect(parsed).toHaveLength(50);
+    expect(parsed?.[0].content).toHaveLength(500);
+  });
+});
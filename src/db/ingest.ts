@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { DB, type CreateMemoryInput, type MemoryTier } from "./db";
+import { generateEmbeddings } from "./vectorize";
+import { loadMemoryConfig } from "./settings";
+import { findDuplicate } from "./write";
+import { extractConversationFacts } from "../ai/text";
+import { dispatchOutbox } from "../jobs/indexing";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const CONVERSATION_ROLES = ["user", "assistant", "system"] as const;
+
+export type ConversationRole = (typeof CONVERSATION_ROLES)[number];
+
+// The newest messages that fit are read; keeps the prompt within the model's context
+const MAX_TRANSCRIPT_CHARS = 24_000;
+// One batch write, and one embedding call, per ingestion
+const MAX_FACTS = 50;
+const MAX_FACT_LENGTH = 500;
+const DEFAULT_IMPORTANCE = 0.5;
+
+/* ================================
+   TYPES
+================================ */
+
+export type ConversationMessage = {
+  role: ConversationRole;
+  content: string;
+};
+
+export type IngestOptions = {
+  // Stored on every memory instead of the model's suggestion
+  source?: string;
+  tags?: string[];
+};
+
+export type ExtractedFact = {
+  content: string;
+  tier: MemoryTier;
+  importance: number;
+  source: string;
+};
+
+export type SkippedFact = ExtractedFact & {
+  // duplicate: an existing memory already holds it, repeated: extracted twice from this conversation
+  reason: "duplicate" | "repeated";
+  // the existing memory, for duplicates
+  memoryId?: string;
+};
+
+export type IngestReport = {
+  // how many of the newest messages fit in the transcript the model read
+  messagesRead: number;
+  stored: Array<ExtractedFact & { id: string }>;
+  skipped: SkippedFact[];
+};
+
+// Loose on purpose: facts the model mangles are dropped rather than failing the ingestion
+const extractedFactsSchema = z.object({
+  facts: z.array(z.looseObject({
+    content: z.string(),
+    tier: z.string().optional(),
+    importance: z.coerce.number().optional(),
+    source: z.string().optional(),
+  }).nullable().catch(null)).catch([]),
+});
+
+/* ================================
+   INGESTION
+================================ */
+
+/**
+ * Turns a chat transcript into atomic memories: the text model extracts the
+ * facts, near-duplicates of existing memories are skipped, and the rest are
+ * stored in one batch for the indexing queue to embed. Returns null when the
+ * model does not return usable JSON, in which case nothing is stored.
+ */
+export async function ingestConversation(
+  userId: string,
+  messages: ConversationMessage[],
+  env: Env,
+  options: IngestOptions = {}
+): Promise<IngestReport | null> {
+  const { transcript, messagesRead } = buildTranscript(messages);
+  const raw = await extractConversationFacts(transcript, env);
+  const facts = raw ? parseFacts(raw) : null;
+  if (!facts) return null;
+
+  const report: IngestReport = { messagesRead, stored: [], skipped: [] };
+
+  // Catches repeats within the conversation, which the vector check cannot see yet
+  const seen = new Set<string>();
+  const unique: ExtractedFact[] = [];
+  for (const extracted of facts) {
+    const fact = { ...extracted, source: options.source ?? extracted.source };
+    const key = `${fact.tier}:${fact.content.toLowerCase()}`;
+    if (seen.has(key)) {
+      report.skipped.push({ ...fact, reason: "repeated" });
+      continue;
+    }
+    seen.add(key);
+    unique.push(fact);
+  }
+  if (!unique.length) return report;
+
+  const config = await loadMemoryConfig(userId, env);
+  const inputs: CreateMemoryInput[] = unique.map((fact) => ({
+    userId,
+    tier: fact.tier,
+    content: fact.content,
+    importance: fact.importance,
+    source: fact.source,
+    tags: options.tags,
+  }));
+
+  const vectors = await generateEmbeddings(inputs.map((input) => input.content), env);
+  const duplicates = await Promise.all(
+    inputs.map((input, i) => findDuplicate(vectors[i], input, env, config))
+  );
+
+  const fresh = unique.filter((fact, i) => {
+    const existing = duplicates[i];
+    if (existing) report.skipped.push({ ...fact, reason: "duplicate", memoryId: existing.id });
+    return !existing;
+  });
+  if (!fresh.length) return report;
+
+  // Quota is checked for the whole batch, so the facts are stored together or not at all
+  const db = await DB.getInstance(env);
+  const ids = await db.batchCreateMemories(inputs.filter((_, i) => !duplicates[i]));
+  await dispatchOutbox(userId, env);
+
+  report.stored = fresh.map((fact, i) => ({ ...fact, id: ids[i] }));
+  return report;
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+// Newest messages first until the budget runs out, then back in order
+function buildTranscript(messages: ConversationMessage[]): { transcript: string; messagesRead: number } {
+  const lines: string[] = [];
+  let length = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const line = `${messages[i].role}: ${messages[i].content.trim()}`;
+    if (lines.length && length + line.length > MAX_TRANSCRIPT_CHARS) break;
+
+    lines.unshift(line.slice(0, MAX_TRANSCRIPT_CHARS));
+    length += line.length + 1;
+  }
+
+  return { transcript: lines.join("\n"), messagesRead: lines.length };
+}
+
+// Cleans up the model's facts; null when the output is not JSON
+export function parseFacts(raw: string): ExtractedFact[] | null {
+  // The model sometimes wraps the JSON in prose or a code fence
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+
+  const parsed = extractedFactsSchema.safeParse(json);
+  if (!parsed.success) return null;
+
+  return parsed.data.facts.flatMap((fact): ExtractedFact[] => {
+    const content = fact?.content.replace(/\s+/g, " ").trim().slice(0, MAX_FACT_LENGTH);
+    if (!fact || !content) return [];
+
+    return [{
+      content,
+      // Lasting facts are the point of ingestion, so anything unclear is kept long-term
+      tier: fact.tier?.toLowerCase().trim() === "short" ? "short" : "long",
+      importance: Math.min(Math.max(fact.importance ?? DEFAULT_IMPORTANCE, 0), 1),
+      source: fact.source?.toLowerCase().trim() === "assistant" ? "conversation:assistant" : "conversation:user",
+    }];
+  }).slice(0, MAX_FACTS);
+}
@@ -0,0 +1,41 @@
+import { DB, type LinkType, type MemoryLink } from "./db";
+
+/* ================================
+   TYPES
+================================ */
+
+export type LinkOutcome = "linked" | "exists" | "not_found" | "self";
+
+export type LinkInput = {
+  userId: string;
+  sourceId: string;
+  targetId: string;
+  type: LinkType;
+  actor: string | null;
+};
+
+/* ================================
+   LINKS
+================================ */
+
+// Both ends must be live memories of the user
+export async function linkMemories(input: LinkInput, env: Env): Promise<LinkOutcome> {
+  if (input.sourceId === input.targetId) return "self";
+
+  const db = await DB.getInstance(env);
+  const [source, target] = await Promise.all([
+    db.getMemoryById(input.sourceId, input.userId),
+    db.getMemoryById(input.targetId, input.userId),
+  ]);
+  if (!source || !target) return "not_found";
+
+  return await db.addMemoryLink(input) ? "linked" : "exists";
+}
+
+// Reads from the memory the link was fetched for, e.g. "superseded by" for an incoming supersedes
+export function describeLink(link: Pick<MemoryLink, "type" | "direction">): string {
+  if (link.type === "supersedes") {
+    return link.direction === "out" ? "supersedes" : "superseded by";
+  }
+  return link.type === "contradicts" ? "contradicts" : "related to";
+}
@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { DB, type MemoryTier } from "./db";
+
+/* ================================
+   CONFIG
+================================ */
+
+export type MemoryConfig = {
+  duplicateThreshold: number;
+  searchThreshold: number;
+  recencyWeight: number;
+  recencyHalfLifeMs: number;
+  // Boosts relative to the base relevance score; 0 disables a term
+  importanceWeight: number;
+  accessWeight: number;
+  accessHalfLifeMs: number;
+  // Access count at which the frequency part of the access term maxes out
+  accessSaturation: number;
+  consolidationThreshold: number;
+  // Applied when both tiers are searched together
+  tierWeights: Record<MemoryTier, number>;
+  // Extract entities and relations into the knowledge graph as memories are indexed
+  graphExtraction: boolean;
+  // Score multiplier for a superseded memory in search; 0 hides it
+  supersededWeight: number;
+  // Check each new memory against related ones for contradictions
+  conflictDetection: boolean;
+  // Similarity an existing memory needs to be checked for a conflict
+  conflictThreshold: number;
+};
+
+export const DEFAULT_CONFIG: MemoryConfig = {
+  duplicateThreshold: 0.85,
+  searchThreshold: 0.65,
+  recencyWeight: 0.1,
+  recencyHalfLifeMs: 1000 * 60 * 60 * 24 * 3, // 3 days
+  importanceWeight: 0.2,
+  accessWeight: 0.1,
+  accessHalfLifeMs: 1000 * 60 * 60 * 24 * 7, // 7 days
+  accessSaturation: 20,
+  consolidationThreshold: 0.8,
+  tierWeights: { short: 1, long: 1 },
+  graphExtraction: true,
+  supersededWeight: 0,
+  conflictDetection: true,
+  conflictThreshold: 0.6,
+};
+
+/* ================================
+   VALIDATION
+================================ */
+
+const similarity = z.number().min(0).max(1);
+const weight = z.number().min(0).max(10);
+const halfLife = z.number().int().min(60_000); // at least a minute
+
+// Every field is optional: a user only stores what differs from DEFAULT_CONFIG.
+// Unknown keys are rejected so typos do not silently fall back to defaults
+export const memoryConfigOverridesSchema = z.strictObject({
+  duplicateThreshold: similarity.optional(),
+  searchThreshold: similarity.optional(),
+  recencyWeight: weight.optional(),
+  recencyHalfLifeMs: halfLife.optional(),
+  importanceWeight: weight.optional(),
+  accessWeight: weight.optional(),
+  accessHalfLifeMs: halfLife.optional(),
+  accessSaturation: z.number().int().min(1).optional(),
+  consolidationThreshold: similarity.optional(),
+  tierWeights: z.strictObject({
+    short: weight.optional(),
+    long: weight.optional(),
+  }).optional(),
+  graphExtraction: z.boolean().optional(),
+  supersededWeight: similarity.optional(),
+  conflictDetection: z.boolean().optional(),
+  conflictThreshold: similarity.optional(),
+});
+
+export type MemoryConfigOverrides = z.infer<typeof memoryConfigOverridesSchema>;
+
+// Throws with a readable message so routes can surface it as a 400
+export function parseMemoryConfigOverrides(input: unknown): MemoryConfigOverrides {
+  const parsed = memoryConfigOverridesSchema.safeParse(input ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid settings: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/* ================================
+   EFFECTIVE CONFIG
+================================ */
+
+export function applyOverrides(overrides: MemoryConfigOverrides): MemoryConfig {
+  return {
+    ...DEFAULT_CONFIG,
+    ...overrides,
+    tierWeights: { ...DEFAULT_CONFIG.tierWeights, ...overrides.tierWeights },
+  };
+}
+
+export async function getMemoryConfigOverrides(
+  userId: string,
+  env: Env
+): Promise<MemoryConfigOverrides> {
+  const db = await DB.getInstance(env);
+  const stored = await db.getMemoryConfigOverrides(userId);
+  if (stored === null) return {};
+
+  // Stored overrides can go stale when fields are removed or tightened;
+  // fall back to the defaults rather than failing every call for the user
+  const parsed = memoryConfigOverridesSchema.safeParse(stored);
+  if (!parsed.success) {
+    console.error("Invalid stored memory config", { userId, error: parsed.error.message });
+    return {};
+  }
+
+  return parsed.data;
+}
+
+export async function loadMemoryConfig(userId: string, env: Env): Promise<MemoryConfig> {
+  return applyOverrides(await getMemoryConfigOverrides(userId, env));
+}
+
+// Replaces the user's overrides; an empty object resets to the defaults
+export async function saveMemoryConfigOverrides(
+  userId: string,
+  overrides: MemoryConfigOverrides,
+  env: Env
+): Promise<MemoryConfig> {
+  const db = await DB.getInstance(env);
+  await db.setMemoryConfigOverrides(userId, Object.keys(overrides).length ? overrides : null);
+  return applyOverrides(overrides);
+}
@@ -0,0 +1,435 @@
+import { z } from "zod";
+import { DB, QuotaExceededError, type CreateMemoryInput, type MemoryRecord, type MemoryTier } from "./db";
+import { generateEmbeddings } from "./vectorize";
+import { loadMemoryConfig } from "./settings";
+import { findDuplicates } from "./write";
+import { dispatchOutbox } from "../jobs/indexing";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const TRANSFER_FORMATS = ["ndjson", "json", "markdown"] as const;
+
+export type TransferFormat = (typeof TRANSFER_FORMATS)[number];
+
+export const TRANSFER_CONTENT_TYPES: Record<TransferFormat, string> = {
+  ndjson: "application/x-ndjson",
+  json: "application/json",
+  markdown: "text/markdown; charset=utf-8",
+};
+
+// Imports do not merge, so only the policies that keep content as written apply
+export const IMPORT_DUPLICATE_POLICIES = ["skip", "insert"] as const;
+
+export type ImportDuplicatePolicy = (typeof IMPORT_DUPLICATE_POLICIES)[number];
+
+const EXPORT_PAGE_SIZE = 100;
+// Matches the embedding batch the reconciler uses
+const IMPORT_BATCH_SIZE = 50;
+// The duplicate check costs a Vectorize query per record, so this keeps an
+// import well inside the Worker's 1000 subrequests
+const MAX_IMPORT_RECORDS = 500;
+// Checked before the body is read and parsed; generous for 500 memories
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const EXPORT_VERSION = 1;
+
+// Long-term first: it is the part worth migrating
+const TIER_ORDER: MemoryTier[] = ["long", "short"];
+
+const TIER_HEADINGS: Record<MemoryTier, string> = {
+  long: "Long-term memory",
+  short: "Short-term memory",
+};
+
+/* ================================
+   TYPES
+================================ */
+
+// Timestamps are epoch milliseconds
+export type ExportedMemory = {
+  id: string;
+  tier: MemoryTier;
+  content: string;
+  importance: number;
+  source: string | null;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number | null;
+  expiresAt: number | null;
+};
+
+export type ImportError = {
+  // position of the record in the import, starting at 0
+  index: number;
+  error: string;
+};
+
+export type ImportReport = {
+  created: number;
+  duplicates: number;
+  failed: number;
+  errors: ImportError[];
+};
+
+export type ImportOptions = {
+  policy?: ImportDuplicatePolicy;
+};
+
+/* ================================
+   VALIDATION
+================================ */
+
+// Epoch milliseconds or an ISO 8601 string, which is what the Markdown export writes
+const timestamp = z.union([
+  z.number().int().nonnegative(),
+  z.iso.datetime({ offset: true }).transform((s) => Date.parse(s)),
+]);
+
+// Unknown keys, the exported id included, are ignored: imports always get new ids
+const importedMemorySchema = z.object({
+  tier: z.enum(["short", "long"]),
+  content: z.string().trim().min(1),
+  importance: z.number().min(0).max(1).optional(),
+  source: z.string().nullish(),
+  tags: z.array(z.string()).max(20).optional(),
+  createdAt: timestamp.optional(),
+  expiresAt: timestamp.nullish(),
+});
+
+type ImportedMemory = z.infer<typeof importedMemorySchema>;
+
+export function isTransferFormat(value: unknown): value is TransferFormat {
+  return TRANSFER_FORMATS.includes(value as TransferFormat);
+}
+
+// Falls back to NDJSON, the default export format, when the type says nothing useful
+export function formatFromContentType(contentType: string | undefined): TransferFormat {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (type === "application/json") return "json";
+  if (type === "text/markdown") return "markdown";
+  return "ndjson";
+}
+
+/* ================================
+   EXPORT
+================================ */
+
+/**
+ * Every live memory of the user, tier by tier in creation order, rendered
+ * chunk by chunk so large exports never sit in memory whole.
+ */
+export async function* exportMemories(
+  userId: string,
+  format: TransferFormat,
+  env: Env
+): AsyncGenerator<string> {
+  const db = await DB.getInstance(env);
+
+  if (format === "json") {
+    yield `{"version":${EXPORT_VERSION},"exportedAt":${Date.now()},"memories":[`;
+  } else if (format === "markdown") {
+    yield `# Memory export\n\nExported ${new Date().toISOString()}\n`;
+  }
+
+  let first = true;
+
+  for (const tier of TIER_ORDER) {
+    if (format === "markdown") yield `\n## ${TIER_HEADINGS[tier]}\n`;
+
+    let exported = 0;
+    let cursor: string | undefined;
+
+    do {
+      const { memories: page, nextCursor } = await db.listMemories(userId, {
+        tier,
+        sort: "oldest",
+        limit: EXPORT_PAGE_SIZE,
+        cursor,
+      });
+
+      const tags = await db.getTagsForMemories(page.map((m) => m.id));
+
+      for (const memory of page) {
+        const exportedMemory = toExportedMemory(memory, tags.get(memory.id) ?? []);
+
+        if (format === "ndjson") {
+          yield `${JSON.stringify(exportedMemory)}\n`;
+        } else if (format === "json") {
+          yield `${first ? "" : ","}${JSON.stringify(exportedMemory)}`;
+        } else {
+          yield toMarkdown(exportedMemory);
+        }
+        first = false;
+      }
+
+      exported += page.length;
+      cursor = nextCursor ?? undefined;
+    } while (cursor);
+
+    if (format === "markdown" && !exported) yield "\n_No memories._\n";
+  }
+
+  if (format === "json") yield "]}\n";
+}
+
+export function exportStream(
+  userId: string,
+  format: TransferFormat,
+  env: Env
+): ReadableStream<Uint8Array> {
+  const chunks = exportMemories(userId, format, env);
+  const encoder = new TextEncoder();
+
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/* ================================
+   IMPORT
+================================ */
+
+/**
+ * Parses an export body into raw records. Structural problems (invalid JSON,
+ * too many records) throw; a single bad NDJSON line only fails that record.
+ */
+export function parseImport(body: string, format: TransferFormat): unknown[] {
+  let records: unknown[];
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw new Error("Invalid import: body is not valid JSON");
+    }
+
+    // Accepts the export envelope or a bare array of memories
+    const memories = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { memories?: unknown } | null)?.memories;
+    if (!Array.isArray(memories)) {
+      throw new Error("Invalid import: expected an array of memories or an object with a memories array");
+    }
+    records = memories;
+  } else if (format === "ndjson") {
+    records = body
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          return new Error("Line is not valid JSON");
+        }
+      });
+  } else {
+    records = parseMarkdown(body);
+  }
+
+  if (records.length > MAX_IMPORT_RECORDS) {
+    throw new Error(`Invalid import: at most ${MAX_IMPORT_RECORDS} memories per import`);
+  }
+
+  return records;
+}
+
+/**
+ * Validates and stores parsed records, IMPORT_BATCH_SIZE at a time: one
+ * embedding call for the duplicate check and one D1 batch each. Vectors are
+ * then written by the indexing queue like any other write. Original creation
+ * times and remaining lifetimes are kept.
+ */
+export async function importMemories(
+  userId: string,
+  records: unknown[],
+  env: Env,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const policy = options.policy ?? "skip";
+  const config = await loadMemoryConfig(userId, env);
+  const db = await DB.getInstance(env);
+
+  const report: ImportReport = { created: 0, duplicates: 0, failed: 0, errors: [] };
+  const fail = (index: number, error: string) => {
+    report.failed++;
+    report.errors.push({ index, error });
+  };
+
+  // Catches repeats within the import, which the vector check cannot see yet
+  const seen = new Set<string>();
+  const valid: Array<{ index: number; input: CreateMemoryInput }> = [];
+
+  records.forEach((record, index) => {
+    if (record instanceof Error) return fail(index, record.message);
+
+    const parsed = importedMemorySchema.safeParse(record);
+    if (!parsed.success) return fail(index, z.prettifyError(parsed.error));
+
+    const key = `${parsed.data.tier}:${parsed.data.content}`;
+    if (seen.has(key)) {
+      report.duplicates++;
+      return;
+    }
+    seen.add(key);
+
+    const input = toCreateInput(userId, parsed.data);
+    if (!input) return fail(index, "Memory has already expired");
+
+    valid.push({ index, input });
+  });
+
+  for (let i = 0; i < valid.length; i += IMPORT_BATCH_SIZE) {
+    let batch = valid.slice(i, i + IMPORT_BATCH_SIZE);
+
+    try {
+      if (policy === "skip") {
+        const vectors = await generateEmbeddings(batch.map((b) => b.input.content), env);
+        const duplicates = await findDuplicates(vectors, batch.map((b) => b.input), userId, env, config);
+
+        report.duplicates += duplicates.filter(Boolean).length;
+        batch = batch.filter((_, j) => !duplicates[j]);
+      }
+
+      if (!batch.length) continue;
+
+      // One D1 batch: a failed batch stores none of its records, so retrying them cannot duplicate any
+      await db.batchCreateMemories(batch.map((b) => b.input));
+      report.created += batch.length;
+    } catch (err) {
+      const message = err instanceof QuotaExceededError ? err.message : "Failed to store memory";
+      if (!(err instanceof QuotaExceededError)) {
+        console.error("Import batch failed", { userId, err });
+      }
+      batch.forEach((b) => fail(b.index, message));
+    }
+  }
+
+  if (report.created) await dispatchOutbox(userId, env);
+
+  report.errors.sort((a, b) => a.index - b.index);
+  return report;
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+function toExportedMemory(memory: MemoryRecord, tags: string[]): ExportedMemory {
+  return {
+    id: memory.id,
+    tier: memory.tier,
+    content: memory.content,
+    importance: memory.importance,
+    source: memory.source,
+    tags,
+    createdAt: memory.created_at,
+    updatedAt: memory.updated_at,
+    expiresAt: memory.expires_at,
+  };
+}
+
+// null when a short-term memory's lifetime ran out before the import
+function toCreateInput(userId: string, memory: ImportedMemory): CreateMemoryInput | null {
+  let ttlSeconds: number | undefined;
+
+  if (memory.tier === "short" && memory.expiresAt != null) {
+    ttlSeconds = Math.ceil((memory.expiresAt - Date.now()) / 1000);
+    if (ttlSeconds <= 0) return null;
+  }
+
+  return {
+    userId,
+    tier: memory.tier,
+    content: memory.content,
+    importance: memory.importance,
+    source: memory.source ?? undefined,
+    tags: memory.tags,
+    ttlSeconds,
+    createdAt: memory.createdAt,
+  };
+}
+
+/*
+ * Markdown layout, one block per memory under a heading per tier:
+ *
+ *   > content, every line quoted
+ *
+ *   - importance: 0.5
+ *   - created: 2026-01-01T00:00:00.000Z
+ */
+function toMarkdown(memory: ExportedMemory): string {
+  const quoted = memory.content
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+
+  const fields: Array<[string, string | null]> = [
+    ["id", memory.id],
+    ["importance", String(memory.importance)],
+    ["source", memory.source?.replace(/\s+/g, " ") ?? null],
+    ["tags", memory.tags.length ? memory.tags.join(", ") : null],
+    ["created", new Date(memory.createdAt).toISOString()],
+    ["updated", memory.updatedAt !== null ? new Date(memory.updatedAt).toISOString() : null],
+    ["expires", memory.expiresAt !== null ? new Date(memory.expiresAt).toISOString() : null],
+  ];
+
+  const list = fields
+    .filter(([, value]) => value !== null)
+    .map(([key, value]) => `- ${key}: ${value}`)
+    .join("\n");
+
+  return `\n${quoted}\n\n${list}\n`;
+}
+
+// Reads the layout toMarkdown writes; a quote block following anything else starts a new memory
+function parseMarkdown(body: string): unknown[] {
+  const records: Array<Record<string, unknown> & { lines: string[] }> = [];
+  let tier: MemoryTier | undefined;
+  let current: (typeof records)[number] | null = null;
+  let quoting = false;
+
+  for (const line of body.split(/\r?\n/)) {
+    const heading = line.match(/^##\s+(long|short)-term/i);
+    if (heading) {
+      tier = heading[1].toLowerCase() as MemoryTier;
+      current = null;
+      quoting = false;
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      if (!quoting) {
+        current = { tier, lines: [] };
+        records.push(current);
+        quoting = true;
+      }
+      current!.lines.push(line.replace(/^> ?/, ""));
+      continue;
+    }
+    quoting = false;
+
+    const field = line.match(/^- (\w+): (.*)$/);
+    if (!field || !current) continue;
+
+    const [, key, value] = field;
+    if (key === "importance") current.importance = Number(value);
+    if (key === "source") current.source = value;
+    if (key === "tags") current.tags = value.split(",").map((t) => t.trim()).filter(Boolean);
+    if (key === "created") current.createdAt = value;
+    if (key === "expires") current.expiresAt = value;
+  }
+
+  return records.map(({ lines, ...record }) => ({ ...record, content: lines.join("\n") }));
+}
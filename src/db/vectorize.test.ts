@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { reciprocalRankFusion } from "./vectorize";
+
+const candidate = (id: string, score = 0) => ({ id, content: `memory ${id}`, createdAt: 0, score });
+
+const scores = (fused: ReturnType<typeof reciprocalRankFusion>) =>
+  Object.fromEntries(fused.map(c => [c.id, c.score]));
+
+describe("reciprocalRankFusion", () => {
+  it("gives the top result of every list a score of 1", () => {
+    const fused = reciprocalRankFusion([[candidate("a"), candidate("b")], [candidate("a"), candidate("c")]], 2);
+    expect(scores(fused).a).toBeCloseTo(1);
+  });
+
+  it("ranks a memory found by both lists above one found by a single list", () => {
+    const fused = scores(reciprocalRankFusion([
+      [candidate("a"), candidate("b")],
+      [candidate("c"), candidate("b")],
+    ], 2));
+
+    expect(fused.b).toBeGreaterThan(fused.a);
+    expect(fused.b).toBeGreaterThan(fused.c);
+    expect(fused.a).toBeCloseTo(fused.c);
+  });
+
+  it("scales by the number of lists fused, not the number that matched", () => {
+    const fused = scores(reciprocalRankFusion([[candidate("a")]], 2));
+    expect(fused.a).toBeCloseTo(0.5);
+  });
+
+  it("ignores the incoming scores and keeps the other fields", () => {
+    const input = candidate("a", 0.93);
+    const [fused] = reciprocalRankFusion([[input]], 1);
+
+    expect(fused).toEqual({ ...input, score: 1 });
+    expect(input.score).toBe(0.93);
+  });
+
+  it("returns nothing for no lists", () => {
+    expect(reciprocalRankFusion([], 2)).toEqual([]);
+  });
+});
@@ -1,4 +1,5 @@
-import { v4 as uuidv4 } from "uuid";
+import { DB, type MemoryFilters, type MemoryRecord, type RankingSignals } from "./db";
+import { loadMemoryConfig, type MemoryConfig } from "./settings";
 
 /* ================================
    CONFIG
@@ -6,25 +7,22 @@ import { v4 as uuidv4 } from "uuid";
 
 export type MemoryTier = "short" | "long";
 
-export type MemoryConfig = {
-  duplicateThreshold: number;
-  searchThreshold: number;
-  recencyWeight: number;
-  recencyHalfLifeMs: number;
-};
-
-const DEFAULT_CONFIG: MemoryConfig = {
-  duplicateThreshold: 0.85,
-  searchThreshold: 0.65,
-  recencyWeight: 0.1,
-  recencyHalfLifeMs: 1000 * 60 * 60 * 24 * 3, // 3 days
-};
+// Standard RRF damping constant; keeps lower ranks from vanishing
+const RRF_K = 60;
+// Tags mirrored into indexed string properties tag0..tag4; Vectorize allows
+// ten metadata indexes and source, importance and createdAt use three
+const TAG_SLOTS = 5;
+// Vectorize's topK limit for queries that return all metadata
+const MAX_TOPK_WITH_METADATA = 50;
+// Longest supersedes chain followed to find the current memory
+const MAX_SUPERSESSION_HOPS = 5;
+export const MAX_DOCUMENT_CONTEXT = 3;
 
 /* ================================
    TYPES
 ================================ */
 
-type MemoryMetadata = {
+export type MemoryMetadata = {
   userId: string;
   tier: MemoryTier;
   content: string;
@@ -32,12 +30,74 @@ type MemoryMetadata = {
   updatedAt?: number;
   importance?: number;
   source?: string;
+  tags?: string[];
+} & Record<`tag${number}`, string>;
+
+// Additive parts of a result's score; they sum to score
+export type ScoreBreakdown = {
+  // cosine similarity, or the fused rank score in keyword/hybrid mode
+  semantic: number;
+  recency: number;
+  importance: number;
+  access: number;
 };
 
 export type MemoryResult = {
   id: string;
   content: string;
   score: number;
+  tier: MemoryTier;
+  // only set when SearchOptions.explain is true
+  breakdown?: ScoreBreakdown;
+  // set on a superseded memory that is still shown (supersededWeight above 0)
+  supersededBy?: string;
+  // matched memories this one supersedes and stands in for
+  supersedes?: string[];
+  // set when the memory is a document chunk; other matching chunks of the document are folded in
+  document?: DocumentHit;
+};
+
+export type DocumentHit = {
+  id: string;
+  title: string;
+  chunkCount: number;
+  // indexes of the chunks that matched, best first
+  matchedChunks: number[];
+  // the matched chunks and SearchOptions.documentContext chunks either side, in document order
+  chunks: Array<{ index: number; content: string }>;
+  // only set when SearchOptions.fullDocument is true
+  content?: string;
+};
+
+export const SEARCH_MODES = ["semantic", "keyword", "hybrid"] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+export type SearchOptions = {
+  mode?: SearchMode;
+  filters?: MemoryFilters;
+  explain?: boolean;
+  // Defaults to true; internal lookups should not count as the user recalling a memory
+  trackAccess?: boolean;
+  // Chunks to add either side of each matched document chunk, up to MAX_DOCUMENT_CONTEXT
+  documentContext?: number;
+  fullDocument?: boolean;
+};
+
+// Wire format shared by the MCP tool and REST route; dates are ISO 8601
+export type SearchFilterInput = {
+  source?: string;
+  minImportance?: number;
+  createdAfter?: string;
+  createdBefore?: string;
+  tags?: string[];
+};
+
+type RankedCandidate = {
+  id: string;
+  content: string;
+  createdAt: number;
+  score: number;
 };
 
 /* ================================
@@ -66,48 +126,64 @@ export async function generateEmbeddings(
    STORE MEMORY
 ================================ */
 
-export async function storeMemory(
-  content: string,
+// Closest vector in the tier at or above the threshold; D1 liveness is up to the caller
+export async function findSimilarVector(
+  vector: number[],
   userId: string,
   tier: MemoryTier,
   env: Env,
-  memoryId?: string,
-  config: MemoryConfig = DEFAULT_CONFIG
-): Promise<string> {
-  const namespace = `${userId}:${tier}`;
-  const id = memoryId ?? `${userId}:${tier}:${uuidv4()}`;
-
-  const [vector] = await generateEmbeddings(content, env);
-  if (!vector) throw new Error("Invalid embedding");
-
+  threshold: number
+): Promise<VectorizeMatch | null> {
   const similar = await env.VECTORIZE.query(vector, {
-    namespace,
+    namespace: `${userId}:${tier}`,
     topK: 1,
-    returnMetadata: true,
   });
 
   const top = similar.matches?.[0];
+  return top && (top.score ?? 0) >= threshold ? top : null;
+}
 
-  if (top && (top.score ?? 0) >= config.duplicateThreshold) {
-    return top.id;
-  }
+// Closest vectors across both tiers at or above the threshold, best first
+export async function findRelatedVectors(
+  vector: number[],
+  userId: string,
+  env: Env,
+  options: { topK: number; threshold: number }
+): Promise<VectorizeMatch[]> {
+  const tiers: MemoryTier[] = ["short", "long"];
+  const results = await Promise.all(tiers.map(tier =>
+    env.VECTORIZE.query(vector, { namespace: `${userId}:${tier}`, topK: options.topK })
+  ));
+
+  return results
+    .flatMap(r => r.matches ?? [])
+    .filter(m => (m.score ?? 0) >= options.threshold)
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, options.topK);
+}
 
-  await env.VECTORIZE.insert([
-    {
-      id,
-      values: vector,
-      namespace,
-      metadata: {
-        userId,
-        tier,
-        content,
-        createdAt: Date.now(),
-      },
-    },
-  ]);
+// Vector for a D1 row, with the metadata search and filters read back
+export function toMemoryVector(memory: MemoryRecord, values: number[], tags: string[]): VectorizeVector {
+  const metadata: MemoryMetadata = {
+    userId: memory.userId,
+    tier: memory.tier,
+    content: memory.content,
+    createdAt: memory.created_at,
+    ...(memory.updated_at !== null && { updatedAt: memory.updated_at }),
+    importance: memory.importance,
+    ...(memory.source !== null && { source: memory.source }),
+    tags,
+    ...tagSlots(tags),
+  };
 
-  return id;
+  return {
+    id: memory.id,
+    values,
+    namespace: `${memory.userId}:${memory.tier}`,
+    metadata,
+  };
 }
+
 /* ================================
    SEARCH
 ================================ */
@@ -115,27 +191,360 @@ export async function storeMemory(
 export async function searchMemories(
   query: string,
   userId: string,
-  tier: MemoryTier,
+  tier: MemoryTier | undefined,
   env: Env,
   topK: number = 10,
-  config: MemoryConfig = DEFAULT_CONFIG
+  config?: MemoryConfig,
+  options: SearchOptions = {}
 ): Promise<MemoryResult[]> {
-  const namespace = `${userId}:${tier}`;
-  const [queryVector] = await generateEmbeddings(query, env);
+  const effectiveConfig = config ?? await loadMemoryConfig(userId, env);
+  const mode = options.mode ?? "hybrid";
+  const tiers: MemoryTier[] = tier ? [tier] : ["short", "long"];
+
+  // One embedding serves every tier namespace
+  let queryVector: number[] | null = null;
+  if (mode !== "keyword") {
+    [queryVector] = await generateEmbeddings(query, env);
+    if (!queryVector) throw new Error("Invalid query embedding");
+  }
 
-  if (!queryVector) throw new Error("Invalid query embedding");
+  const perTier = await Promise.all(
+    tiers.map(t => searchTier(query, queryVector, userId, t, env, topK, effectiveConfig, mode, options.filters ?? {}))
+  );
 
-  const results = await env.VECTORIZE.query(queryVector, {
-    namespace,
-    topK,
-    returnMetadata: true,
+  // Scores share a 0-1 scale across tiers, so weighting is enough to merge them
+  const weighted = perTier.flat().map(m => {
+    const weight = tiers.length > 1 ? effectiveConfig.tierWeights[m.tier] : 1;
+    return { ...m, breakdown: scaleBreakdown(m.breakdown, weight), score: m.score * weight };
   });
+  const memories = await applySupersession(
+    weighted,
+    userId,
+    env,
+    effectiveConfig.supersededWeight,
+    tiers,
+    options.filters ?? {}
+  );
+
+  memories.sort((a, b) => b.score - a.score);
+  const results = await expandDocuments(
+    (await groupDocumentChunks(memories, userId, env)).slice(0, topK),
+    userId,
+    env,
+    options
+  );
+
+  if (options.trackAccess ?? true) {
+    const db = await DB.getInstance(env);
+    await db.recordAccess(results.map(m => m.id));
+  }
+
+  return options.explain
+    ? results
+    : results.map(({ breakdown: _, ...m }) => m);
+}
+
+/**
+ * Puts the current version of a fact where its outdated version matched: the
+ * superseding memory takes the superseded one's score, and the superseded one
+ * is dropped, or kept with its score scaled by weight and marked supersededBy.
+ * A superseding memory outside the searched tiers or filters does not take the
+ * place; the superseded one stays at its full score, marked supersededBy.
+ */
+async function applySupersession(
+  results: MemoryResult[],
+  userId: string,
+  env: Env,
+  weight: number,
+  tiers: MemoryTier[],
+  filters: MemoryFilters
+): Promise<MemoryResult[]> {
+  if (!results.length) return results;
+
+  const db = await DB.getInstance(env);
+
+  // Direct superseder of each memory, following chains a few hops
+  const supersededBy = new Map<string, MemoryRecord>();
+  const checked = new Set<string>();
+  let pending = results.map(r => r.id);
+
+  for (let hop = 0; hop < MAX_SUPERSESSION_HOPS && pending.length; hop++) {
+    pending.forEach(id => checked.add(id));
+    const found = await db.getSupersedingMemories(userId, pending);
+    found.forEach((memory, id) => supersededBy.set(id, memory));
+    pending = [...found.values()].map(m => m.id).filter(id => !checked.has(id));
+  }
+
+  if (!supersededBy.size) return results;
+
+  const latest = (id: string): MemoryRecord | undefined => {
+    let current = supersededBy.get(id);
+    const seen = new Set([id]);
+    // The seen check ends a supersedes cycle at the last new memory
+    while (current && supersededBy.has(current.id) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = supersededBy.get(current.id);
+    }
+    return current;
+  };
+
+  // Replacements are held to the same tier and filters as the search itself
+  const replacements = results.flatMap(r => latest(r.id) ?? []).filter(m => tiers.includes(m.tier));
+  const eligible = await db.getRankingSignals(userId, [...new Set(replacements.map(m => m.id))], filters);
+
+  const merged = new Map<string, MemoryResult>();
+  const add = (result: MemoryResult) => {
+    const existing = merged.get(result.id);
+    const supersedes = [...new Set([...(existing?.supersedes ?? []), ...(result.supersedes ?? [])])];
+    const best = !existing || result.score > existing.score ? result : existing;
+    merged.set(result.id, supersedes.length ? { ...best, supersedes } : best);
+  };
+
+  for (const result of results) {
+    const replacement = latest(result.id);
+    if (!replacement) {
+      add(result);
+      continue;
+    }
+
+    if (!eligible.has(replacement.id)) {
+      add({ ...result, supersededBy: replacement.id });
+      continue;
+    }
+
+    add({
+      id: replacement.id,
+      content: replacement.content,
+      tier: replacement.tier,
+      score: result.score,
+      breakdown: result.breakdown,
+      supersedes: [result.id],
+    });
+
+    if (weight > 0) {
+      add({
+        ...result,
+        score: result.score * weight,
+        breakdown: scaleBreakdown(result.breakdown, weight),
+        supersededBy: replacement.id,
+      });
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Folds every matching chunk of a document into its best-scoring one, so a
+ * document takes one result slot however many of its chunks matched.
+ * Expects results sorted by score.
+ */
+async function groupDocumentChunks(
+  results: MemoryResult[],
+  userId: string,
+  env: Env
+): Promise<MemoryResult[]> {
+  if (!results.length) return results;
+
+  const db = await DB.getInstance(env);
+  const refs = await db.getChunkRefs(userId, results.map(r => r.id));
+  if (!refs.size) return results;
+
+  const grouped: MemoryResult[] = [];
+  const byDocument = new Map<string, DocumentHit>();
+
+  for (const result of results) {
+    const ref = refs.get(result.id);
+    if (!ref) {
+      grouped.push(result);
+      continue;
+    }
+
+    const chunk = { index: ref.chunkIndex, content: result.content };
+    const existing = byDocument.get(ref.documentId);
+    if (existing) {
+      existing.matchedChunks.push(ref.chunkIndex);
+      existing.chunks.push(chunk);
+      continue;
+    }
+
+    const document: DocumentHit = {
+      id: ref.documentId,
+      title: ref.title,
+      chunkCount: ref.chunkCount,
+      matchedChunks: [ref.chunkIndex],
+      chunks: [chunk],
+    };
+    byDocument.set(ref.documentId, document);
+    grouped.push({ ...result, document });
+  }
+
+  for (const document of byDocument.values()) {
+    document.chunks.sort((a, b) => a.index - b.index);
+  }
+
+  return grouped;
+}
+
+// Adds the surrounding chunks, or the full text, to the document results that are returned
+async function expandDocuments(
+  results: MemoryResult[],
+  userId: string,
+  env: Env,
+  options: SearchOptions
+): Promise<MemoryResult[]> {
+  const context = Math.min(Math.max(options.documentContext ?? 0, 0), MAX_DOCUMENT_CONTEXT);
+  if (!context && !options.fullDocument) return results;
+
+  const db = await DB.getInstance(env);
+
+  for (const { document } of results) {
+    if (!document) continue;
+
+    if (context) {
+      const wanted = new Set(document.matchedChunks.flatMap(index =>
+        Array.from({ length: context * 2 + 1 }, (_, i) => index - context + i)
+      ));
+      const chunks = await db.getDocumentChunks(document.id, userId, {
+        from: Math.min(...wanted),
+        to: Math.max(...wanted),
+      });
+      document.chunks = chunks
+        .filter(chunk => wanted.has(chunk.index))
+        .map(({ index, content }) => ({ index, content }));
+    }
+
+    if (options.fullDocument) {
+      document.content = (await db.getDocument(document.id, userId))?.content;
+    }
+  }
 
-  if (!results.matches?.length) return [];
+  return results;
+}
+
+async function searchTier(
+  query: string,
+  queryVector: number[] | null,
+  userId: string,
+  tier: MemoryTier,
+  env: Env,
+  topK: number,
+  config: MemoryConfig,
+  mode: SearchMode,
+  filters: MemoryFilters
+): Promise<MemoryResult[]> {
+  const db = await DB.getInstance(env);
+
+  const [semantic, keyword] = await Promise.all([
+    queryVector ? semanticCandidates(queryVector, userId, tier, env, topK, config, filters) : [],
+    mode === "semantic" ? [] : db.searchMemoriesByKeyword(userId, tier, query, topK, filters),
+  ]);
+
+  // D1 is the source of truth: drops expired-but-unswept memories and
+  // re-checks filters against rows whose vector metadata may be stale
+  const signals = await db.getRankingSignals(
+    userId,
+    [...new Set([...semantic, ...keyword].map(m => m.id))],
+    filters
+  );
+  const rankings: RankedCandidate[][] = [
+    semantic.filter(m => signals.has(m.id)),
+    keyword.map(m => ({ id: m.id, content: m.content, createdAt: m.created_at, score: 0 })),
+  ].filter(list => list.length > 0);
+
+  // Semantic-only keeps the raw cosine score; anything fused is ranked by RRF
+  const fused = mode === "semantic"
+    ? rankings[0] ?? []
+    : reciprocalRankFusion(rankings, mode === "hybrid" ? 2 : 1);
 
   const now = Date.now();
 
-  const memories = results.matches
+  return fused.map(candidate => {
+    const breakdown = scoreCandidate(candidate, signals.get(candidate.id), config, now);
+
+    return {
+      id: candidate.id,
+      content: candidate.content,
+      score: breakdown.semantic + breakdown.recency + breakdown.importance + breakdown.access,
+      tier,
+      breakdown,
+    };
+  });
+}
+
+/**
+ * Every boost is multiplicative on the base relevance, so a strong but
+ * irrelevant memory can never outrank a relevant one by signals alone.
+ */
+function scoreCandidate(
+  candidate: RankedCandidate,
+  signals: RankingSignals | undefined,
+  config: MemoryConfig,
+  now: number
+): ScoreBreakdown {
+  const base = candidate.score;
+  const recency = Math.exp(-(now - candidate.createdAt) / config.recencyHalfLifeMs);
+  const importance = Math.min(Math.max(signals?.importance ?? 0, 0), 1);
+
+  // Frequency saturates logarithmically; fades if the memory stops being recalled
+  const count = signals?.access_count ?? 0;
+  const frequency = Math.min(Math.log1p(count) / Math.log1p(config.accessSaturation), 1);
+  const lastAccess = signals?.last_accessed_at;
+  const access = lastAccess
+    ? frequency * Math.exp(-(now - lastAccess) / config.accessHalfLifeMs)
+    : 0;
+
+  return {
+    semantic: base,
+    recency: base * recency * config.recencyWeight,
+    importance: base * importance * config.importanceWeight,
+    access: base * access * config.accessWeight,
+  };
+}
+
+function scaleBreakdown(breakdown: ScoreBreakdown | undefined, weight: number): ScoreBreakdown | undefined {
+  if (!breakdown || weight === 1) return breakdown;
+
+  return {
+    semantic: breakdown.semantic * weight,
+    recency: breakdown.recency * weight,
+    importance: breakdown.importance * weight,
+    access: breakdown.access * weight,
+  };
+}
+
+async function semanticCandidates(
+  queryVector: number[],
+  userId: string,
+  tier: MemoryTier,
+  env: Env,
+  topK: number,
+  config: MemoryConfig,
+  filters: MemoryFilters
+): Promise<RankedCandidate[]> {
+  const namespace = `${userId}:${tier}`;
+  const filter = toVectorizeFilter(filters);
+
+  // Filters cannot OR across properties, so each tag slot is queried on its own.
+  // A match carries at least one requested tag; D1 re-checks that it has all of them
+  const slotFilters = filters.tags?.length
+    ? Array.from({ length: TAG_SLOTS }, (_, i) => ({ ...filter, [`tag${i}`]: { $in: filters.tags! } }))
+    : [filter];
+
+  const results = await Promise.all(slotFilters.map(slotFilter =>
+    env.VECTORIZE.query(queryVector, {
+      namespace,
+      topK: Math.min(topK, MAX_TOPK_WITH_METADATA),
+      returnMetadata: true,
+      filter: slotFilter,
+    })
+  ));
+
+  // A vector sits in one slot per tag, so the same id can come back more than once
+  const matches = new Map(results.flatMap(r => r.matches ?? []).map(match => [match.id, match]));
+
+  return [...matches.values()]
+    .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
     .map(match => {
       const meta = match.metadata as MemoryMetadata | undefined;
       const semantic = match.score ?? 0;
@@ -144,79 +553,127 @@ export async function searchMemories(
         return null;
       }
 
-      const age = now - meta.createdAt;
-      const recency = Math.exp(-age / config.recencyHalfLifeMs);
-
-      // multiplicative recency
-      const finalScore =
-        semantic * (1 + recency * config.recencyWeight);
-
       return {
         id: match.id,
         content: meta.content,
-        score: finalScore,
+        createdAt: meta.createdAt,
+        score: semantic,
       };
     })
-    .filter(Boolean) as MemoryResult[];
+    .filter(Boolean) as RankedCandidate[];
+}
 
-  memories.sort((a, b) => b.score - a.score);
-  return memories;
+/**
+ * Reciprocal rank fusion: each list contributes 1 / (k + rank) per item.
+ * Scores are divided by the best achievable total so they stay within 0-1
+ * regardless of how many lists were fused.
+ */
+export function reciprocalRankFusion(
+  rankings: RankedCandidate[][],
+  listCount: number
+): RankedCandidate[] {
+  const fused = new Map<string, RankedCandidate>();
+  const maxScore = listCount / (RRF_K + 1);
+
+  for (const ranking of rankings) {
+    ranking.forEach((candidate, index) => {
+      const contribution = 1 / (RRF_K + index + 1) / maxScore;
+      const existing = fused.get(candidate.id);
+
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(candidate.id, { ...candidate, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()];
 }
 
 /* ================================
-   UPDATE
+   FILTERS
 ================================ */
 
-export async function updateMemoryVector(
-  memoryId: string,
-  newContent: string,
-  userId: string,
-  tier: MemoryTier,
-  env: Env,
-  previous?: MemoryMetadata,
-  config: MemoryConfig = DEFAULT_CONFIG
-): Promise<void> {
-  const namespace = `${userId}:${tier}`;
-  const [vector] = await generateEmbeddings(newContent, env);
-  if (!vector) throw new Error("Invalid embedding");
-
-  const metadata: MemoryMetadata = {
-    userId,
-    tier,
-    content: newContent,
-    createdAt: previous?.createdAt ?? Date.now(),
-    updatedAt: Date.now(),
-    importance: previous?.importance,
-    source: previous?.source,
+export function toSearchFilters(input: SearchFilterInput = {}): MemoryFilters {
+  return {
+    source: input.source,
+    minImportance: input.minImportance,
+    createdAfter: parseFilterDate("createdAfter", input.createdAfter),
+    createdBefore: parseFilterDate("createdBefore", input.createdBefore),
+    tags: input.tags,
   };
+}
 
-  try {
-    await env.VECTORIZE.upsert([
-      {
-        id: memoryId,
-        values: vector,
-        namespace,
-        metadata,
-      },
-    ]);
-  } catch (err) {
-    console.error("Vector upsert failed", { memoryId, err });
-    throw err;
+function parseFilterDate(field: string, value?: string): number | undefined {
+  if (value === undefined) return undefined;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid ${field}: expected an ISO 8601 date`);
   }
+  return time;
+}
+
+// Pushed down to Vectorize; needs metadata indexes on source, importance and createdAt.
+// Tags are added per slot by semanticCandidates
+function toVectorizeFilter(filters: MemoryFilters): VectorizeVectorMetadataFilter | undefined {
+  const filter: VectorizeVectorMetadataFilter = {};
+
+  if (filters.source !== undefined) {
+    filter.source = { $eq: filters.source };
+  }
+  if (filters.minImportance !== undefined) {
+    filter.importance = { $gte: filters.minImportance };
+  }
+  if (filters.createdAfter !== undefined || filters.createdBefore !== undefined) {
+    filter.createdAt = {
+      ...(filters.createdAfter !== undefined && { $gte: filters.createdAfter }),
+      ...(filters.createdBefore !== undefined && { $lt: filters.createdBefore }),
+    };
+  }
+
+  return Object.keys(filter).length ? filter : undefined;
 }
 
 /* ================================
-   DELETE
+   UPDATE
 ================================ */
 
-export async function deleteMemory(
+/**
+ * Rewrites a vector's metadata without re-embedding. Vectorize has no
+ * metadata-only update, so the stored values are read back and upserted.
+ */
+export async function updateVectorMetadata(
   memoryId: string,
+  patch: Partial<MemoryMetadata>,
   env: Env
 ): Promise<void> {
-  try {
-    await env.VECTORIZE.deleteByIds([memoryId]);
-  } catch (err) {
-    console.error("Vector delete failed", { memoryId, err });
-    throw err;
-  }
-}
\ No newline at end of file
+  const [existing] = await env.VECTORIZE.getByIds([memoryId]);
+  if (!existing) return;
+
+  await env.VECTORIZE.upsert([
+    {
+      id: memoryId,
+      values: existing.values,
+      namespace: existing.namespace,
+      metadata: withTagSlots({
+        ...(existing.metadata as MemoryMetadata | undefined),
+        ...patch,
+      } as MemoryMetadata),
+    },
+  ]);
+}
+
+function tagSlots(tags: string[]): Record<`tag${number}`, string> {
+  return Object.fromEntries(tags.slice(0, TAG_SLOTS).map((tag, i) => [`tag${i}`, tag]));
+}
+
+// Clears slots left over from a longer tag list before refilling them
+function withTagSlots(metadata: MemoryMetadata): MemoryMetadata {
+  const cleared = Object.fromEntries(
+    Object.entries(metadata).filter(([key]) => !/^tag\d+$/.test(key))
+  ) as MemoryMetadata;
+
+  return { ...cleared, ...tagSlots(metadata.tags ?? []) };
+}
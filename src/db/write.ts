@@ -0,0 +1,151 @@
+import { DB, type CreateMemoryInput, type IndexStatus, type MemoryRecord } from "./db";
+import { findSimilarVector, generateEmbeddings } from "./vectorize";
+import { loadMemoryConfig, type MemoryConfig } from "./settings";
+import { detectConflicts, type DetectedConflict } from "./conflicts";
+import { mergeFacts } from "../ai/text";
+import { dispatchOutbox } from "../jobs/indexing";
+
+/* ================================
+   TYPES
+================================ */
+
+// skip: keep the existing memory, insert: always write, merge: fold the new facts into the existing memory
+export const DUPLICATE_POLICIES = ["skip", "insert", "merge"] as const;
+
+export type DuplicatePolicy = (typeof DUPLICATE_POLICIES)[number];
+
+export type WriteOutcome = {
+  status: "created" | "duplicate_of" | "merged_into";
+  memoryId: string;
+  indexStatus: IndexStatus;
+  // existing memories a created memory contradicts, recorded as open conflicts
+  conflicts?: DetectedConflict[];
+};
+
+export type WriteOptions = {
+  policy?: DuplicatePolicy;
+  config?: MemoryConfig;
+  // Defaults to config.conflictDetection; internal writes such as consolidation turn it off
+  detectConflicts?: boolean;
+};
+
+/* ================================
+   WRITE
+================================ */
+
+/**
+ * Single write path for one memory. Near-duplicates are detected before
+ * anything is persisted, so a duplicate never leaves a D1 row without a vector.
+ * The vector itself is written by the indexing queue.
+ */
+export async function writeMemory(
+  input: CreateMemoryInput,
+  env: Env,
+  options: WriteOptions = {}
+): Promise<WriteOutcome> {
+  const policy = options.policy ?? "skip";
+  const config = options.config ?? await loadMemoryConfig(input.userId, env);
+  const db = await DB.getInstance(env);
+  let vector: number[] | null = null;
+
+  // Only the duplicate check embeds inline; insert goes straight to the queue
+  if (policy !== "insert") {
+    [vector] = await generateEmbeddings(input.content, env);
+    if (!vector) throw new Error("Invalid embedding");
+
+    const existing = await findDuplicate(vector, input, env, config);
+
+    if (existing) {
+      // A failed merge still leaves the existing memory intact, so report it as a duplicate
+      if (policy === "merge" && await mergeInto(existing, input, env)) {
+        return { status: "merged_into", memoryId: existing.id, indexStatus: "pending" };
+      }
+      return { status: "duplicate_of", memoryId: existing.id, indexStatus: existing.index_status };
+    }
+  }
+
+  // Row and outbox entry commit together, so the memory is indexed even if dispatch fails
+  const memoryId = await db.createMemory(input);
+  await dispatchOutbox(input.userId, env);
+
+  if (!(options.detectConflicts ?? config.conflictDetection)) {
+    return { status: "created", memoryId, indexStatus: "pending" };
+  }
+
+  const conflicts = await detectConflicts(memoryId, input, vector, env, config);
+  return { status: "created", memoryId, indexStatus: "pending", conflicts };
+}
+
+// Merging and conflict detection call TEXT_MODEL, so such writes also count against the ai rate limit
+export function writeUsesTextModel(policy: DuplicatePolicy | undefined, config: MemoryConfig): boolean {
+  return policy === "merge" || config.conflictDetection;
+}
+
+// Wire format: created | duplicate_of:<id> | merged_into:<id>
+export function formatWriteOutcome(outcome: WriteOutcome): string {
+  return outcome.status === "created"
+    ? outcome.status
+    : `${outcome.status}:${outcome.memoryId}`;
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+// A live memory in the input's tier whose vector is at least duplicateThreshold similar
+export async function findDuplicate(
+  vector: number[],
+  input: CreateMemoryInput,
+  env: Env,
+  config: MemoryConfig
+): Promise<MemoryRecord | null> {
+  const match = await findSimilarVector(vector, input.userId, input.tier, env, config.duplicateThreshold);
+  if (!match) return null;
+
+  // A vector whose row is gone or expired is not worth deduplicating against
+  const db = await DB.getInstance(env);
+  const existing = await db.getMemoryById(match.id, input.userId);
+  if (!existing || (existing.expires_at !== null && existing.expires_at <= Date.now())) {
+    return null;
+  }
+
+  return existing;
+}
+
+// findDuplicate for many inputs of one user, with a single D1 read for the batch
+export async function findDuplicates(
+  vectors: number[][],
+  inputs: CreateMemoryInput[],
+  userId: string,
+  env: Env,
+  config: MemoryConfig
+): Promise<Array<MemoryRecord | null>> {
+  const matches = await Promise.all(inputs.map((input, i) =>
+    findSimilarVector(vectors[i], userId, input.tier, env, config.duplicateThreshold)
+  ));
+  const ids = matches.flatMap(m => m ? [m.id] : []);
+  if (!ids.length) return inputs.map(() => null);
+
+  // Only live, unexpired rows come back, as in findDuplicate
+  const db = await DB.getInstance(env);
+  const live = new Map((await db.getMemoriesByIds(userId, ids)).map(m => [m.id, m]));
+
+  return matches.map(m => (m && live.get(m.id)) ?? null);
+}
+
+async function mergeInto(
+  existing: MemoryRecord,
+  input: CreateMemoryInput,
+  env: Env
+): Promise<boolean> {
+  const content = await mergeFacts([existing.content, input.content], env);
+  if (!content) return false;
+
+  // Tags first, so the re-embed queued by updateMemory picks them up
+  const db = await DB.getInstance(env);
+  await db.addTags(existing.id, existing.userId, input.tags ?? []);
+  await db.updateMemory(existing.id, existing.userId, content, "merge");
+  await dispatchOutbox(existing.userId, env);
+
+  return true;
+}
@@ -1,14 +1,115 @@
 import { Hono } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { bodyLimit } from "hono/body-limit";
+import { z } from "zod";
+import OAuthProvider from "@cloudflare/workers-oauth-provider";
 import { MyMCP } from "./mcp/mcp";
-import { DB } from "./db/db";
 import {
-  storeMemory,
+  DB,
+  InvalidCursorError,
+  QuotaExceededError,
+  type DocumentRecord,
+  type EntityRecord,
+  type MemoryConflict,
+  type MemoryRecord
+} from "./db/db";
+import {
+  authenticateRequest,
+  generateApiKey,
+  hashApiKey,
+  parseScopes,
+  requireAuth,
+  requireOperator,
+  type AppEnv
+} from "./auth/auth";
+import { oauth, OAUTH_SCOPES } from "./auth/oauth";
+import { rateLimit, rateLimitResponse } from "./limits/ratelimit";
+import { sweepExpiredMemories, EXPIRY_CRON } from "./jobs/expiry";
+import { consolidateAllUsers, consolidateMemories, CONSOLIDATION_CRON } from "./jobs/consolidation";
+import { reconcileAllUsers, reconcileMemories, RECONCILE_CRON } from "./jobs/reconcile";
+import { dispatchOutbox, handleIndexBatch, relayOutbox, OUTBOX_RELAY_CRON, type IndexMessage } from "./jobs/indexing";
+import { purgeTrash, trashRetentionMs, TRASH_PURGE_CRON } from "./jobs/trash";
+import {
   searchMemories,
-  updateMemoryVector,
-  deleteMemory
+  toSearchFilters
 } from "./db/vectorize";
+import { summarizeMemories, extractEntities, answerFromMemories, MAX_CONTEXT_MEMORIES } from "./ai/text";
+import {
+  getMemoryConfigOverrides,
+  applyOverrides,
+  loadMemoryConfig,
+  memoryConfigOverridesSchema,
+  saveMemoryConfigOverrides
+} from "./db/settings";
+import { buildHistory } from "./db/history";
+import { writeMemory, formatWriteOutcome, writeUsesTextModel } from "./db/write";
+import {
+  exportStream,
+  importMemories,
+  parseImport,
+  formatFromContentType,
+  TRANSFER_CONTENT_TYPES,
+  MAX_IMPORT_BYTES,
+} from "./db/transfer";
+import { validate } from "./api/validation";
+import { buildOpenApiDocument, DOCS_PAGE } from "./api/openapi";
+import {
+  apiKeyCreateBody,
+  quotaUpdateBody,
+  memoryIdParams,
+  memoryListQuery,
+  trashQuery,
+  exportQuery,
+  importQuery,
+  memoryWriteShape,
+  memoryBatchWriteShape,
+  memoryIngestShape,
+  memorySearchShape,
+  memoryUpdateShape,
+  memoryRevertShape,
+  memoryClearShape,
+  memoryTagsShape,
+  memorySummarizeShape,
+  memoryEntitiesShape,
+  memoryAskShape,
+  memoryConsolidateShape,
+  memoryReconcileShape,
+  entityParams,
+  entityLookupQuery,
+  entityMemoriesQuery,
+  entityNeighboursQuery,
+  memoryLinkBody,
+  memoryUnlinkBody,
+  conflictsQuery,
+  conflictParams,
+  conflictResolveBody,
+  memoryDocumentAddShape,
+  documentParams,
+  documentListQuery
+} from "./api/schemas";
+import { linkMemories } from "./db/links";
+import { resolveConflict } from "./db/conflicts";
+import { ingestConversation } from "./db/ingest";
+import { addDocument, DocumentTooLargeError } from "./db/documents";
+import { findEntities, resolveEntity, traverseNeighbours } from "./db/graph";
+
+const app = new Hono<AppEnv>();
+
+/* =====================================
+   Errors: one JSON envelope everywhere
+===================================== */
+
+app.notFound((c) => c.json({ success: false, error: "Not found" }, 404));
+
+app.onError((err, c) => {
+  // Raised by Hono itself, e.g. a malformed JSON body
+  if (err instanceof HTTPException) {
+    return c.json({ success: false, error: err.message }, err.status);
+  }
 
-const app = new Hono<{ Bindings: Env }>();
+  console.error("Unhandled error:", err);
+  return c.json({ success: false, error: "Internal error" }, 500);
+});
 
 /* =====================================
    Middleware: Initialize DB
@@ -20,69 +121,359 @@ app.use("*", async (c, next) => {
 });
 
 /* =====================================
-   MEMORY WRITE (DB first, rollback safe)
+   OAUTH (consent page + grant management)
 ===================================== */
 
-app.post("/:userId/memory/write", async (c) => {
-  const userId = c.req.param("userId");
+app.route("/", oauth);
 
-  try {
-    const { content, tier } = await c.req.json();
+/* =====================================
+   API KEYS (admin scope)
+===================================== */
 
-    if (!content || !tier) {
-      return c.json({ success: false, error: "Missing content or tier" }, 400);
-    }
+app.post("/:userId/keys", requireAuth("admin"), validate("json", apiKeyCreateBody), async (c) => {
+  const { userId } = c.get("auth");
+  const { name, scopes } = c.req.valid("json");
 
+  try {
+    const requested = scopes ?? ["read", "write"];
     const db = await DB.getInstance(c.env);
 
-    // 1️⃣ Create DB record FIRST (source of truth)
-    const memoryId = await db.createMemory({
+    // The plaintext key is only ever returned here; D1 keeps the hash
+    const key = generateApiKey();
+    const id = await db.createApiKey({
       userId,
-      tier,
-      content,
+      name: name ?? "default",
+      keyHash: await hashApiKey(key),
+      keyPrefix: key.slice(0, 12),
+      scopes: requested,
     });
 
-    try {
-      // 2️⃣ Index into Vectorize
-      await storeMemory(content, userId, tier, c.env, memoryId);
-    } catch (vectorErr) {
-      // Rollback DB if vector fails
-      await db.deleteMemory(memoryId, userId);
-      throw vectorErr;
+    return c.json({ success: true, id, key, scopes: requested }, 201);
+  } catch (err) {
+    console.error("API key creation failed:", err);
+    return c.json({ success: false, error: "API key creation failed" }, 500);
+  }
+});
+
+app.get("/:userId/keys", requireAuth("admin"), async (c) => {
+  const { userId } = c.get("auth");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const keys = await db.listApiKeys(userId);
+
+    return c.json({
+      success: true,
+      keys: keys.map((k) => ({
+        id: k.id,
+        name: k.name,
+        prefix: k.key_prefix,
+        scopes: parseScopes(k.scopes),
+        createdAt: k.created_at,
+        lastUsedAt: k.last_used_at,
+        revokedAt: k.revoked_at,
+      })),
+    });
+  } catch (err) {
+    console.error("API key listing failed:", err);
+    return c.json({ success: false, error: "API key listing failed" }, 500);
+  }
+});
+
+app.delete("/:userId/keys/:keyId", requireAuth("admin"), async (c) => {
+  const { userId } = c.get("auth");
+  const keyId = c.req.param("keyId");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const revoked = await db.revokeApiKey(keyId, userId);
+
+    if (!revoked) {
+      return c.json({ success: false, error: "API key not found" }, 404);
     }
 
-    return c.json({ success: true, id: memoryId });
+    return c.json({ success: true });
+  } catch (err) {
+    console.error("API key revocation failed:", err);
+    return c.json({ success: false, error: "API key revocation failed" }, 500);
+  }
+});
+
+/* =====================================
+   QUOTA (operator sets, user reads)
+===================================== */
+
+app.get("/:userId/quota", requireAuth("read"), async (c) => {
+  const { userId } = c.get("auth");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const [maxMemories, used] = await Promise.all([
+      db.getMemoryQuota(userId),
+      db.getMemoryCount(userId),
+    ]);
+
+    return c.json({ success: true, maxMemories, used });
+  } catch (err) {
+    console.error("Quota lookup failed:", err);
+    return c.json({ success: false, error: "Quota lookup failed" }, 500);
+  }
+});
+
+app.put("/:userId/quota", requireAuth("admin"), requireOperator(), validate("json", quotaUpdateBody), async (c) => {
+  const { userId } = c.get("auth");
+  const { maxMemories } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    // null clears the override and falls back to MAX_MEMORIES_PER_USER
+    await db.setMemoryQuota(userId, maxMemories);
+
+    return c.json({ success: true, maxMemories: await db.getMemoryQuota(userId) });
   } catch (err) {
+    console.error("Quota update failed:", err);
+    return c.json({ success: false, error: "Quota update failed" }, 500);
+  }
+});
+
+/* =====================================
+   RECONCILE (admin scope)
+===================================== */
+
+app.post("/:userId/reconcile", requireAuth("admin"), rateLimit("ai"), validate("json", z.object(memoryReconcileShape)), async (c) => {
+  const { userId } = c.get("auth");
+  // An empty body is a report-only run
+  const { repair, cursor } = c.req.valid("json");
+
+  try {
+    const report = await reconcileMemories(userId, c.env, { repair: repair === true, cursor });
+
+    return c.json({ success: true, ...report });
+  } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return c.json({ success: false, error: err.message }, 400);
+    }
+    console.error("Reconciliation failed:", err);
+    return c.json({ success: false, error: "Reconciliation failed" }, 500);
+  }
+});
+
+/* =====================================
+   SETTINGS (per-user MemoryConfig overrides)
+===================================== */
+
+app.get("/:userId/settings", requireAuth("read"), async (c) => {
+  const { userId } = c.get("auth");
+
+  try {
+    const overrides = await getMemoryConfigOverrides(userId, c.env);
+    return c.json({ success: true, overrides, config: applyOverrides(overrides) });
+  } catch (err) {
+    console.error("Settings lookup failed:", err);
+    return c.json({ success: false, error: "Settings lookup failed" }, 500);
+  }
+});
+
+app.put("/:userId/settings", requireAuth("write"), validate("json", memoryConfigOverridesSchema), async (c) => {
+  const { userId } = c.get("auth");
+  const overrides = c.req.valid("json");
+
+  try {
+    // Replaces every stored override; {} goes back to the defaults
+    const config = await saveMemoryConfigOverrides(userId, overrides, c.env);
+
+    return c.json({ success: true, overrides, config });
+  } catch (err) {
+    console.error("Settings update failed:", err);
+    return c.json({ success: false, error: "Settings update failed" }, 500);
+  }
+});
+
+/* =====================================
+   MEMORY WRITE (DB first, vector queued)
+===================================== */
+
+app.post("/:userId/memory/write", requireAuth("write"), rateLimit("write"), validate("json", z.object(memoryWriteShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { content, tier, importance, source, ttlSeconds, tags, onDuplicate } = c.req.valid("json");
+
+  try {
+    const config = await loadMemoryConfig(userId, c.env);
+    if (writeUsesTextModel(onDuplicate, config)) {
+      const limited = await rateLimitResponse(c, "ai");
+      if (limited) return limited;
+    }
+
+    // Near-duplicates are resolved before anything is written; the queue embeds the new row
+    const outcome = await writeMemory(
+      { userId, tier, content, importance, source, ttlSeconds, tags },
+      c.env,
+      { policy: onDuplicate, config }
+    );
+
+    return c.json({
+      success: true,
+      id: outcome.memoryId,
+      outcome: formatWriteOutcome(outcome),
+      indexStatus: outcome.indexStatus,
+      ...(outcome.conflicts && { conflicts: outcome.conflicts }),
+    });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return c.json({ success: false, error: err.message }, 403);
+    }
     console.error("Memory write failed:", err);
-    return c.json({ success: false }, 500);
+    return c.json({ success: false, error: "Memory write failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/batch", requireAuth("write"), rateLimit("write"), validate("json", z.object(memoryBatchWriteShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { memories } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    // Same as memory_batch_write: no duplicate check, the queue embeds every row
+    const ids = await db.batchCreateMemories(memories.map((m) => ({
+      id: `${userId}:${m.tier}:${crypto.randomUUID()}`,
+      userId,
+      tier: m.tier,
+      content: m.content,
+      importance: m.importance,
+      source: m.source,
+      ttlSeconds: m.ttlSeconds,
+      tags: m.tags,
+    })));
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, ids, indexStatus: "pending" }, 201);
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return c.json({ success: false, error: err.message }, 403);
+    }
+    console.error("Memory batch write failed:", err);
+    return c.json({ success: false, error: "Memory batch write failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/ingest", requireAuth("write"), rateLimit("ai"), validate("json", z.object(memoryIngestShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { messages, source, tags } = c.req.valid("json");
+
+  try {
+    // Same as memory_ingest_conversation: duplicates skipped, the rest stored as one batch
+    const report = await ingestConversation(userId, messages, c.env, { source, tags });
+
+    if (!report) {
+      return c.json({ success: false, error: "Model did not return valid facts" }, 502);
+    }
+
+    return c.json({ success: true, ...report }, report.stored.length ? 201 : 200);
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return c.json({ success: false, error: err.message }, 403);
+    }
+    console.error("Conversation ingestion failed:", err);
+    return c.json({ success: false, error: "Conversation ingestion failed" }, 500);
   }
 });
 
 /* =====================================
-   MEMORY SEARCH
+   MEMORY LIST / GET / STATS
 ===================================== */
 
-app.post("/:userId/memory/search", async (c) => {
-  const userId = c.req.param("userId");
+app.get("/:userId/memory", requireAuth("read"), rateLimit("read"), validate("query", memoryListQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const { tier, tags, sort, limit, cursor } = c.req.valid("query");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const { memories, nextCursor } = await db.listMemories(userId, {
+      tier,
+      filters: { tags },
+      sort,
+      limit,
+      cursor,
+    });
+    const memoryTags = await db.getTagsForMemories(memories.map((m) => m.id));
+
+    return c.json({
+      success: true,
+      memories: memories.map((m) => toMemoryJson(m, memoryTags.get(m.id) ?? [])),
+      nextCursor,
+    });
+  } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return c.json({ success: false, error: err.message }, 400);
+    }
+    console.error("Memory listing failed:", err);
+    return c.json({ success: false, error: "Memory listing failed" }, 500);
+  }
+});
+
+app.get("/:userId/memory/:memoryId", requireAuth("read"), rateLimit("read"), validate("param", memoryIdParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
 
   try {
-    const { query, tier } = await c.req.json();
+    const db = await DB.getInstance(c.env);
 
-    if (!query || !tier) {
-      return c.json({ success: false, error: "Missing query or tier" }, 400);
+    const memory = await db.getMemoryById(memoryId, userId);
+    if (!memory) {
+      return c.json({ success: false, error: "Memory not found" }, 404);
     }
 
+    return c.json({ success: true, memory: toMemoryJson(memory, await db.getTags(memoryId)) });
+  } catch (err) {
+    console.error("Memory lookup failed:", err);
+    return c.json({ success: false, error: "Memory lookup failed" }, 500);
+  }
+});
+
+app.get("/:userId/stats", requireAuth("read"), rateLimit("read"), async (c) => {
+  const { userId } = c.get("auth");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const [total, short, long] = await Promise.all([
+      db.getMemoryCount(userId),
+      db.getMemoryCount(userId, "short"),
+      db.getMemoryCount(userId, "long"),
+    ]);
+
+    return c.json({ success: true, total, short, long });
+  } catch (err) {
+    console.error("Memory stats failed:", err);
+    return c.json({ success: false, error: "Memory stats failed" }, 500);
+  }
+});
+
+/* =====================================
+   MEMORY SEARCH
+===================================== */
+
+app.post("/:userId/memory/search", requireAuth("read"), rateLimit("search"), validate("json", z.object(memorySearchShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { query, tier, limit, mode, filters, explain, documentContext, fullDocument } = c.req.valid("json");
+
+  try {
     const results = await searchMemories(
       query,
       userId,
       tier,
-      c.env
+      c.env,
+      limit,
+      undefined,
+      { mode, filters: toSearchFilters(filters), explain: explain === true, documentContext, fullDocument }
     );
 
     return c.json({ success: true, results });
   } catch (err) {
     console.error("Memory search failed:", err);
-    return c.json({ success: false }, 500);
+    return c.json({ success: false, error: "Memory search failed" }, 500);
   }
 });
 
@@ -90,61 +481,762 @@ app.post("/:userId/memory/search", async (c) => {
    MEMORY UPDATE (tier from DB only)
 ===================================== */
 
-app.put("/:userId/memory/:memoryId", async (c) => {
-  const userId = c.req.param("userId");
-  const memoryId = c.req.param("memoryId");
+app.put("/:userId/memory/:memoryId", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), validate("json", z.object(memoryUpdateShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+  const { content } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const memory = await db.getMemoryById(memoryId, userId);
+    if (!memory) {
+      return c.json({ success: false, error: "Memory not found" }, 404);
+    }
+
+    // Row and outbox entry commit together; the queue re-embeds
+    await db.updateMemory(memoryId, userId, content, c.get("auth").keyId);
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, indexStatus: "pending" });
+  } catch (err) {
+    console.error("Memory update failed:", err);
+    return c.json({ success: false, error: "Memory update failed" }, 500);
+  }
+});
+
+/* =====================================
+   MEMORY HISTORY (versions + revert)
+===================================== */
+
+app.get("/:userId/memory/:memoryId/history", requireAuth("read"), rateLimit("read"), validate("param", memoryIdParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
 
   try {
-    const { content } = await c.req.json();
+    const db = await DB.getInstance(c.env);
 
-    if (!content) {
-      return c.json({ success: false, error: "Missing content" }, 400);
+    const memory = await db.getMemoryById(memoryId, userId);
+    if (!memory) {
+      return c.json({ success: false, error: "Memory not found" }, 404);
     }
 
+    const versions = await db.getMemoryVersions(memoryId, userId);
+
+    return c.json({ success: true, memoryId, versions: buildHistory(memory, versions) });
+  } catch (err) {
+    console.error("Memory history failed:", err);
+    return c.json({ success: false, error: "Memory history failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/:memoryId/revert", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), validate("json", z.object(memoryRevertShape)), async (c) => {
+  const { userId, keyId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+  const { version } = c.req.valid("json");
+
+  try {
     const db = await DB.getInstance(c.env);
 
-    // 1️⃣ Fetch canonical record
-    const memory = await db.getMemories(userId, "short");
+    const memory = await db.getMemoryById(memoryId, userId);
     if (!memory) {
       return c.json({ success: false, error: "Memory not found" }, 404);
     }
-    await updateMemoryVector(memoryId, content, userId, "short", c.env);
-    return c.json({ success: true });
+
+    const target = await db.getMemoryVersion(memoryId, userId, version);
+    if (!target) {
+      return c.json({ success: false, error: `Version ${version} not found` }, 404);
+    }
+
+    // The current content becomes a new version, so a revert can be undone too
+    await db.updateMemory(memoryId, userId, target.content, keyId);
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, content: target.content, indexStatus: "pending" });
   } catch (err) {
-    console.error("Memory update failed:", err);
-    return c.json({ success: false }, 500);
+    console.error("Memory revert failed:", err);
+    return c.json({ success: false, error: "Memory revert failed" }, 500);
   }
 });
 
 /* =====================================
-   MEMORY DELETE (vector first safer)
+   MEMORY DELETE (moves to trash, vector delete queued)
 ===================================== */
 
-app.delete("/:userId/memory/:memoryId", async (c) => {
-  const userId = c.req.param("userId");
-  const memoryId = c.req.param("memoryId");
+app.delete("/:userId/memory/:memoryId", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
 
   try {
     const db = await DB.getInstance(c.env);
 
-    const memory = await db.getMemories(userId, "short");
+    const memory = await db.getMemoryById(memoryId, userId);
     if (!memory) {
       return c.json({ success: false, error: "Memory not found" }, 404);
     }
 
-    // 1️⃣ Delete from Vector index first
-    await deleteMemory(memoryId, c.env);
-
-    // 2️⃣ Then delete from DB
+    // Tombstone and outbox entry commit together; the queue drops the vector
     await db.deleteMemory(memoryId, userId);
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
 
-    return c.json({ success: true });
+    return c.json({ success: true, purgeAt: Date.now() + trashRetentionMs(c.env) });
   } catch (err) {
     console.error("Memory delete failed:", err);
-    return c.json({ success: false }, 500);
+    return c.json({ success: false, error: "Memory delete failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/clear", requireAuth("write"), rateLimit("write"), validate("json", z.object(memoryClearShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { tier, confirm } = c.req.valid("json");
+
+  if (!confirm) {
+    return c.json({ success: false, error: "Deletion not confirmed; send confirm: true" }, 400);
+  }
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    // Moves every live memory in scope to the trash and queues its vector delete
+    const cleared = await db.clearAllMemories(userId, tier);
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, cleared, purgeAt: Date.now() + trashRetentionMs(c.env) });
+  } catch (err) {
+    console.error("Memory clear failed:", err);
+    return c.json({ success: false, error: "Memory clear failed" }, 500);
   }
 });
 
+/* =====================================
+   TAGS
+===================================== */
+
+app.get("/:userId/tags", requireAuth("read"), rateLimit("read"), async (c) => {
+  const { userId } = c.get("auth");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    return c.json({ success: true, tags: await db.listTags(userId) });
+  } catch (err) {
+    console.error("Tag listing failed:", err);
+    return c.json({ success: false, error: "Tag listing failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/:memoryId/tags", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), validate("json", z.object(memoryTagsShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+  const { tags } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const memory = await db.getMemoryById(memoryId, userId);
+    if (!memory) {
+      return c.json({ success: false, error: "Memory not found" }, 404);
+    }
+
+    // The vector's tags are rewritten by the indexing queue
+    await db.addTags(memoryId, userId, tags);
+    const current = await db.getTags(memoryId);
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, tags: current });
+  } catch (err) {
+    console.error("Memory tagging failed:", err);
+    return c.json({ success: false, error: "Memory tagging failed" }, 500);
+  }
+});
+
+app.delete("/:userId/memory/:memoryId/tags", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), validate("json", z.object(memoryTagsShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+  const { tags } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const memory = await db.getMemoryById(memoryId, userId);
+    if (!memory) {
+      return c.json({ success: false, error: "Memory not found" }, 404);
+    }
+
+    // The vector's tags are rewritten by the indexing queue
+    await db.removeTags(memoryId, userId, tags);
+    const current = await db.getTags(memoryId);
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, tags: current });
+  } catch (err) {
+    console.error("Memory untagging failed:", err);
+    return c.json({ success: false, error: "Memory untagging failed" }, 500);
+  }
+});
+
+/* =====================================
+   LINKS
+===================================== */
+
+app.get("/:userId/memory/:memoryId/links", requireAuth("read"), rateLimit("read"), validate("param", memoryIdParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const memory = await db.getMemoryById(memoryId, userId);
+    if (!memory) {
+      return c.json({ success: false, error: "Memory not found" }, 404);
+    }
+
+    const links = await db.getMemoryLinks(memoryId, userId);
+    const memoryTags = await db.getTagsForMemories([memoryId, ...links.map((l) => l.memory.id)]);
+
+    return c.json({
+      success: true,
+      memory: toMemoryJson(memory, memoryTags.get(memoryId) ?? []),
+      links: links.map((l) => ({
+        id: l.id,
+        type: l.type,
+        direction: l.direction,
+        createdAt: l.created_at,
+        createdBy: l.created_by,
+        memory: toMemoryJson(l.memory, memoryTags.get(l.memory.id) ?? []),
+      })),
+    });
+  } catch (err) {
+    console.error("Memory link listing failed:", err);
+    return c.json({ success: false, error: "Memory link listing failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/:memoryId/links", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), validate("json", memoryLinkBody), async (c) => {
+  const { userId, keyId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+  const { targetId, type } = c.req.valid("json");
+
+  try {
+    const outcome = await linkMemories({ userId, sourceId: memoryId, targetId, type, actor: keyId }, c.env);
+
+    if (outcome === "not_found") {
+      return c.json({ success: false, error: "Memory not found" }, 404);
+    }
+    if (outcome === "self") {
+      return c.json({ success: false, error: "A memory cannot be linked to itself" }, 400);
+    }
+
+    return c.json({ success: true, created: outcome === "linked" }, outcome === "linked" ? 201 : 200);
+  } catch (err) {
+    console.error("Memory linking failed:", err);
+    return c.json({ success: false, error: "Memory linking failed" }, 500);
+  }
+});
+
+app.delete("/:userId/memory/:memoryId/links", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), validate("json", memoryUnlinkBody), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+  const { targetId, type } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const removed = await db.removeMemoryLinks(userId, memoryId, targetId, type);
+
+    return c.json({ success: true, removed });
+  } catch (err) {
+    console.error("Memory unlinking failed:", err);
+    return c.json({ success: false, error: "Memory unlinking failed" }, 500);
+  }
+});
+
+/* =====================================
+   DOCUMENTS (stored whole + chunk memories)
+===================================== */
+
+app.post("/:userId/documents", requireAuth("write"), rateLimit("write"), validate("json", z.object(memoryDocumentAddShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { title, content, source, importance, tags } = c.req.valid("json");
+
+  try {
+    // The queue embeds every chunk, as it does for a batch write
+    const { documentId, memoryIds } = await addDocument({ userId, title, content, source, importance, tags }, c.env);
+
+    return c.json({ success: true, documentId, memoryIds, indexStatus: "pending" }, 201);
+  } catch (err) {
+    if (err instanceof DocumentTooLargeError) {
+      return c.json({ success: false, error: err.message }, 400);
+    }
+    if (err instanceof QuotaExceededError) {
+      return c.json({ success: false, error: err.message }, 403);
+    }
+    console.error("Document write failed:", err);
+    return c.json({ success: false, error: "Document write failed" }, 500);
+  }
+});
+
+app.get("/:userId/documents", requireAuth("read"), rateLimit("read"), validate("query", documentListQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const { limit } = c.req.valid("query");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const documents = await db.listDocuments(userId, limit);
+
+    return c.json({ success: true, documents: documents.map(toDocumentJson) });
+  } catch (err) {
+    console.error("Document listing failed:", err);
+    return c.json({ success: false, error: "Document listing failed" }, 500);
+  }
+});
+
+app.get("/:userId/documents/:documentId", requireAuth("read"), rateLimit("read"), validate("param", documentParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { documentId } = c.req.valid("param");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const document = await db.getDocument(documentId, userId);
+
+    if (!document) {
+      return c.json({ success: false, error: "Document not found" }, 404);
+    }
+
+    const chunks = await db.getDocumentChunks(documentId, userId);
+
+    return c.json({
+      success: true,
+      document: { ...toDocumentJson(document), content: document.content, chunks },
+    });
+  } catch (err) {
+    console.error("Document fetch failed:", err);
+    return c.json({ success: false, error: "Document fetch failed" }, 500);
+  }
+});
+
+app.delete("/:userId/documents/:documentId", requireAuth("write"), rateLimit("write"), validate("param", documentParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { documentId } = c.req.valid("param");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const deleted = await db.deleteDocument(documentId, userId);
+
+    if (!deleted) {
+      return c.json({ success: false, error: "Document not found" }, 404);
+    }
+
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, purgeAt: Date.now() + trashRetentionMs(c.env) });
+  } catch (err) {
+    console.error("Document delete failed:", err);
+    return c.json({ success: false, error: "Document delete failed" }, 500);
+  }
+});
+
+/* =====================================
+   CONFLICTS (found on write)
+===================================== */
+
+app.get("/:userId/conflicts", requireAuth("read"), rateLimit("read"), validate("query", conflictsQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const { status, limit } = c.req.valid("query");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const conflicts = await db.getConflicts(userId, status, limit);
+
+    return c.json({ success: true, conflicts: conflicts.map(toConflictJson) });
+  } catch (err) {
+    console.error("Conflict listing failed:", err);
+    return c.json({ success: false, error: "Conflict listing failed" }, 500);
+  }
+});
+
+app.post("/:userId/conflicts/:conflictId/resolve", requireAuth("write"), rateLimit("write"), validate("param", conflictParams), validate("json", conflictResolveBody), async (c) => {
+  const { userId, keyId } = c.get("auth");
+  const { conflictId } = c.req.valid("param");
+  const { resolution } = c.req.valid("json");
+
+  try {
+    const outcome = await resolveConflict(userId, conflictId, resolution, keyId, c.env);
+
+    if (outcome === "not_found") {
+      return c.json({ success: false, error: "Conflict not found" }, 404);
+    }
+    if (outcome === "already_resolved") {
+      return c.json({ success: false, error: "Conflict already resolved" }, 409);
+    }
+    if (outcome === "merge_failed") {
+      return c.json({ success: false, error: "Failed to merge memories" }, 502);
+    }
+
+    return c.json({ success: true, conflictId, resolution });
+  } catch (err) {
+    console.error("Conflict resolution failed:", err);
+    return c.json({ success: false, error: "Conflict resolution failed" }, 500);
+  }
+});
+
+/* =====================================
+   AI (summarize, entities, ask, consolidate)
+===================================== */
+
+app.post("/:userId/memory/summarize", requireAuth("read"), rateLimit("ai"), validate("json", z.object(memorySummarizeShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { tier, tags } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const { memories } = await db.listMemories(userId, {
+      tier,
+      filters: { tags },
+      limit: MAX_CONTEXT_MEMORIES,
+    });
+
+    if (!memories.length) {
+      return c.json({ success: true, count: 0, summary: null });
+    }
+
+    const summary = await summarizeMemories(memories.map((m) => m.content), c.env);
+    if (!summary) {
+      return c.json({ success: false, error: "Failed to generate summary" }, 502);
+    }
+
+    return c.json({ success: true, count: memories.length, summary });
+  } catch (err) {
+    console.error("Memory summarize failed:", err);
+    return c.json({ success: false, error: "Memory summarize failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/entities", requireAuth("read"), rateLimit("ai"), validate("json", z.object(memoryEntitiesShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { tier } = c.req.valid("json");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const { memories } = await db.listMemories(userId, { tier, limit: MAX_CONTEXT_MEMORIES });
+
+    if (!memories.length) {
+      return c.json({ success: true, count: 0, entities: null });
+    }
+
+    const raw = await extractEntities(memories.map((m) => m.content), c.env);
+
+    // The MCP tool passes the text through; REST callers get parsed JSON or an error
+    let entities: unknown;
+    try {
+      entities = JSON.parse(raw ?? "");
+    } catch {
+      return c.json({ success: false, error: "Model did not return valid JSON" }, 502);
+    }
+
+    return c.json({ success: true, count: memories.length, entities });
+  } catch (err) {
+    console.error("Entity extraction failed:", err);
+    return c.json({ success: false, error: "Entity extraction failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/ask", requireAuth("read"), rateLimit("ai"), validate("json", z.object(memoryAskShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { question, tier } = c.req.valid("json");
+
+  try {
+    const sources = await searchMemories(question, userId, tier, c.env, 5);
+    const answer = await answerFromMemories(question, sources, c.env);
+    if (!answer) {
+      return c.json({ success: false, error: "Failed to generate answer" }, 502);
+    }
+
+    return c.json({ success: true, answer, sources });
+  } catch (err) {
+    console.error("Memory ask failed:", err);
+    return c.json({ success: false, error: "Memory ask failed" }, 500);
+  }
+});
+
+app.post("/:userId/memory/consolidate", requireAuth("write"), rateLimit("ai"), validate("json", z.object(memoryConsolidateShape)), async (c) => {
+  const { userId } = c.get("auth");
+  const { minClusterSize, dryRun } = c.req.valid("json");
+
+  try {
+    const result = await consolidateMemories(userId, c.env, { minClusterSize, dryRun: dryRun === true });
+
+    return c.json({ success: true, ...result });
+  } catch (err) {
+    console.error("Memory consolidation failed:", err);
+    return c.json({ success: false, error: "Memory consolidation failed" }, 500);
+  }
+});
+
+/* =====================================
+   KNOWLEDGE GRAPH
+===================================== */
+
+app.get("/:userId/entities", requireAuth("read"), rateLimit("read"), validate("query", entityLookupQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const { query, limit } = c.req.valid("query");
+
+  try {
+    const entities = await findEntities(userId, query, c.env, limit);
+
+    return c.json({ success: true, entities: entities.map(toEntityJson) });
+  } catch (err) {
+    console.error("Entity lookup failed:", err);
+    return c.json({ success: false, error: "Entity lookup failed" }, 500);
+  }
+});
+
+app.get("/:userId/entities/:entity", requireAuth("read"), rateLimit("read"), validate("param", entityParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { entity } = c.req.valid("param");
+
+  try {
+    const found = await resolveEntity(userId, entity, c.env);
+    if (!found) {
+      return c.json({ success: false, error: "Entity not found" }, 404);
+    }
+
+    return c.json({ success: true, entity: toEntityJson(found) });
+  } catch (err) {
+    console.error("Entity read failed:", err);
+    return c.json({ success: false, error: "Entity read failed" }, 500);
+  }
+});
+
+app.get("/:userId/entities/:entity/memories", requireAuth("read"), rateLimit("read"), validate("param", entityParams), validate("query", entityMemoriesQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const { entity } = c.req.valid("param");
+  const { limit } = c.req.valid("query");
+
+  try {
+    const found = await resolveEntity(userId, entity, c.env);
+    if (!found) {
+      return c.json({ success: false, error: "Entity not found" }, 404);
+    }
+
+    const db = await DB.getInstance(c.env);
+    const memories = await db.getEntityMemories(found.id, userId, limit);
+    const memoryTags = await db.getTagsForMemories(memories.map((m) => m.id));
+
+    return c.json({
+      success: true,
+      entity: toEntityJson(found),
+      memories: memories.map((m) => toMemoryJson(m, memoryTags.get(m.id) ?? [])),
+    });
+  } catch (err) {
+    console.error("Entity memory listing failed:", err);
+    return c.json({ success: false, error: "Entity memory listing failed" }, 500);
+  }
+});
+
+app.get("/:userId/entities/:entity/neighbours", requireAuth("read"), rateLimit("read"), validate("param", entityParams), validate("query", entityNeighboursQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const { entity } = c.req.valid("param");
+  const { relation, depth } = c.req.valid("query");
+
+  try {
+    const found = await resolveEntity(userId, entity, c.env);
+    if (!found) {
+      return c.json({ success: false, error: "Entity not found" }, 404);
+    }
+
+    const neighbours = await traverseNeighbours(found, c.env, { relation, depth });
+
+    return c.json({ success: true, entity: toEntityJson(found), neighbours });
+  } catch (err) {
+    console.error("Entity traversal failed:", err);
+    return c.json({ success: false, error: "Entity traversal failed" }, 500);
+  }
+});
+
+/* =====================================
+   TRASH (list + restore)
+===================================== */
+
+app.get("/:userId/trash", requireAuth("read"), rateLimit("read"), validate("query", trashQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const { limit } = c.req.valid("query");
+
+  try {
+    const db = await DB.getInstance(c.env);
+    const memories = await db.getTrashedMemories(userId, limit);
+    const retention = trashRetentionMs(c.env);
+
+    return c.json({
+      success: true,
+      memories: memories.map((m) => ({
+        id: m.id,
+        tier: m.tier,
+        content: m.content,
+        deletedAt: m.deleted_at,
+        purgeAt: (m.deleted_at ?? 0) + retention,
+      })),
+    });
+  } catch (err) {
+    console.error("Trash listing failed:", err);
+    return c.json({ success: false, error: "Trash listing failed" }, 500);
+  }
+});
+
+// Restores the whole trash
+app.post("/:userId/trash/restore", requireAuth("write"), rateLimit("write"), async (c) => {
+  const { userId } = c.get("auth");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    // Rows and outbox entries commit together; the queue re-embeds
+    const restored = await db.restoreMemories(userId);
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, restored });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return c.json({ success: false, error: err.message }, 403);
+    }
+    console.error("Trash restore failed:", err);
+    return c.json({ success: false, error: "Trash restore failed" }, 500);
+  }
+});
+
+app.post("/:userId/trash/:memoryId/restore", requireAuth("write"), rateLimit("write"), validate("param", memoryIdParams), async (c) => {
+  const { userId } = c.get("auth");
+  const { memoryId } = c.req.valid("param");
+
+  try {
+    const db = await DB.getInstance(c.env);
+
+    const restored = await db.restoreMemories(userId, memoryId);
+    if (!restored) {
+      return c.json({ success: false, error: "Memory not found in trash" }, 404);
+    }
+    c.executionCtx.waitUntil(dispatchOutbox(userId, c.env));
+
+    return c.json({ success: true, indexStatus: "pending" });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return c.json({ success: false, error: err.message }, 403);
+    }
+    console.error("Memory restore failed:", err);
+    return c.json({ success: false, error: "Memory restore failed" }, 500);
+  }
+});
+
+/* =====================================
+   EXPORT / IMPORT (NDJSON, JSON, Markdown)
+===================================== */
+
+app.get("/:userId/export", requireAuth("read"), rateLimit("read"), validate("query", exportQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const format = c.req.valid("query").format ?? "ndjson";
+  const extension = format === "markdown" ? "md" : format;
+
+  // Streamed page by page; an error mid-stream aborts the response
+  return c.body(exportStream(userId, format, c.env), 200, {
+    "Content-Type": TRANSFER_CONTENT_TYPES[format],
+    "Content-Disposition": `attachment; filename="memories-${userId}.${extension}"`,
+  });
+});
+
+const importBodyLimit = bodyLimit({
+  maxSize: MAX_IMPORT_BYTES,
+  onError: (c) => c.json({ success: false, error: `Import too large: at most ${MAX_IMPORT_BYTES} bytes` }, 413),
+});
+
+app.post("/:userId/import", requireAuth("write"), rateLimit("ai"), importBodyLimit, validate("query", importQuery), async (c) => {
+  const { userId } = c.get("auth");
+  const query = c.req.valid("query");
+  // The query parameter wins over the Content-Type
+  const format = query.format ?? formatFromContentType(c.req.header("Content-Type"));
+
+  try {
+    let records;
+    try {
+      records = parseImport(await c.req.text(), format);
+    } catch (parseErr) {
+      return c.json({ success: false, error: (parseErr as Error).message }, 400);
+    }
+
+    const report = await importMemories(userId, records, c.env, { policy: query.onDuplicate });
+
+    return c.json({ success: true, ...report });
+  } catch (err) {
+    console.error("Memory import failed:", err);
+    return c.json({ success: false, error: "Memory import failed" }, 500);
+  }
+});
+
+/* =====================================
+   API DOCS (public)
+===================================== */
+
+app.get("/openapi.json", (c) => c.json(buildOpenApiDocument(c.env)));
+
+app.get("/docs", (c) => c.html(DOCS_PAGE));
+
+/* =====================================
+   HELPERS
+===================================== */
+
+// REST shape of a memory row: camelCase, tags attached
+function toMemoryJson(memory: MemoryRecord, tags: string[]) {
+  return {
+    id: memory.id,
+    tier: memory.tier,
+    content: memory.content,
+    importance: memory.importance,
+    source: memory.source,
+    tags,
+    createdAt: memory.created_at,
+    updatedAt: memory.updated_at,
+    updatedBy: memory.updated_by,
+    expiresAt: memory.expires_at,
+    accessCount: memory.access_count,
+    lastAccessedAt: memory.last_accessed_at,
+    indexStatus: memory.index_status,
+  };
+}
+
+function toDocumentJson(document: Omit<DocumentRecord, "content">) {
+  return {
+    id: document.id,
+    title: document.title,
+    source: document.source,
+    createdAt: document.created_at,
+    chunkCount: document.chunk_count,
+  };
+}
+
+function toConflictJson(conflict: MemoryConflict) {
+  return {
+    id: conflict.id,
+    reason: conflict.reason,
+    status: conflict.status,
+    resolution: conflict.resolution,
+    createdAt: conflict.created_at,
+    resolvedAt: conflict.resolved_at,
+    resolvedBy: conflict.resolved_by,
+    memory: conflict.memory,
+    conflicting: conflict.conflicting,
+  };
+}
+
+function toEntityJson(entity: EntityRecord) {
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: entity.type,
+    mentions: entity.mentions,
+    createdAt: entity.created_at,
+    updatedAt: entity.updated_at,
+  };
+}
+
 /* =====================================
    MCP SSE Mount (Proper Param Routing)
 ===================================== */
@@ -162,9 +1254,24 @@ app.mount("/", async (req, env, ctx) => {
     return new Response("Bad Request: Could not extract userId from URL path", { status: 400 });
   }
 
-  // Pass the dynamic userId to the MCP agent's props
+  // Authenticate before the agent ever sees the request
+  const auth = await authenticateRequest(req, env, userId, ctx);
+  if (!auth) {
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: { "WWW-Authenticate": "Bearer" },
+    });
+  }
+
+  if (auth.userId !== userId) {
+    return new Response("Forbidden: credential does not belong to this user", { status: 403 });
+  }
+
+  // userId and scopes come from the verified credential, not the path
   ctx.props = {
-    userId: userId,
+    userId: auth.userId,
+    scopes: auth.scopes,
+    keyId: auth.keyId,
   };
 
   // So the full path handled by MCPMemory will be /:userId/sse
@@ -177,5 +1284,67 @@ app.mount("/", async (req, env, ctx) => {
   // Fallback if MCPMemory doesn't handle the specific request under its mount point
   return new Response("Not Found within MCP mount", { status: 404 });
 });
-export default app;
+
+/* =====================================
+   OAuth Provider (wraps the whole app)
+===================================== */
+
+// Discovery metadata, dynamic client registration, PKCE token exchange,
+// refresh and revocation are served by the provider; token-bound MCP
+// clients connect at /sse and get props from the grant.
+let provider: OAuthProvider<Env> | null = null;
+
+function getOAuthProvider(env: Env): OAuthProvider<Env> {
+  // resource must be the public URL, which is only known from env
+  provider ??= new OAuthProvider<Env>({
+    apiHandlers: {
+      "/sse": MyMCP.serveSSE("/sse"),
+    },
+    defaultHandler: app,
+    authorizeEndpoint: "/authorize",
+    tokenEndpoint: "/token",
+    clientRegistrationEndpoint: "/register",
+    scopesSupported: [...OAUTH_SCOPES],
+    resourceMetadata: {
+      resource: `${env.PUBLIC_URL}/sse`,
+      resource_name: "MCP Memory",
+    },
+  });
+  return provider;
+}
+
+export default {
+  fetch(req: Request, env: Env, ctx: ExecutionContext) {
+    return getOAuthProvider(env).fetch(req, env, ctx);
+  },
+
+  // Outbox messages: embedding and Vectorize writes happen here, off the request path
+  async queue(batch: MessageBatch<IndexMessage>, env: Env) {
+    await handleIndexBatch(batch, env);
+  },
+
+  // Cron triggers, dispatched on the schedule that fired
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    switch (controller.cron) {
+      case EXPIRY_CRON:
+        ctx.waitUntil(sweepExpiredMemories(env));
+        break;
+      case CONSOLIDATION_CRON:
+        ctx.waitUntil(consolidateAllUsers(env));
+        break;
+      case RECONCILE_CRON:
+        ctx.waitUntil(reconcileAllUsers(env));
+        break;
+      case OUTBOX_RELAY_CRON:
+        ctx.waitUntil(relayOutbox(env));
+        break;
+      case TRASH_PURGE_CRON:
+        ctx.waitUntil(purgeTrash(env));
+        break;
+      default:
+        console.warn("Unknown cron trigger", controller.cron);
+    }
+  },
+} satisfies ExportedHandler<Env, IndexMessage>;
+
 export { MyMCP };
\ No newline at end of file
@@ -0,0 +1,208 @@
+import { DB, type MemoryRecord } from "../db/db";
+import { generateEmbeddings } from "../db/vectorize";
+import { loadMemoryConfig, type MemoryConfig } from "../db/settings";
+import { writeMemory } from "../db/write";
+import { mergeFacts } from "../ai/text";
+import { dispatchOutbox } from "./indexing";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const CONSOLIDATION_CRON = "0 * * * *";
+
+// Caps the Workers AI spend of a single pass
+const MAX_MEMORIES_PER_PASS = 200;
+const MAX_USERS_PER_CRON_RUN = 10;
+const EMBEDDING_BATCH_SIZE = 50;
+// Vectorize caps getByIds at 20 ids per call
+const VECTOR_FETCH_BATCH_SIZE = 20;
+
+/* ================================
+   TYPES
+================================ */
+
+export type ConsolidationOptions = {
+  minClusterSize?: number;
+  dryRun?: boolean;
+  config?: MemoryConfig;
+};
+
+export type ConsolidatedCluster = {
+  sourceIds: string[];
+  content: string;
+  memoryId: string | null;
+};
+
+export type ConsolidationResult = {
+  clusters: ConsolidatedCluster[];
+  promoted: number;
+  retired: number;
+};
+
+/* ================================
+   CONSOLIDATE
+================================ */
+
+/**
+ * Clusters a user's short-term memories by embedding similarity, merges each
+ * cluster into one long-term memory with TEXT_MODEL and moves the sources to
+ * the trash, superseded by it. Vectors are read back from the index; only
+ * memories the queue has not embedded yet are embedded here.
+ */
+export async function consolidateMemories(
+  userId: string,
+  env: Env,
+  options: ConsolidationOptions = {}
+): Promise<ConsolidationResult> {
+  const minClusterSize = options.minClusterSize ?? 2;
+  const config = options.config ?? await loadMemoryConfig(userId, env);
+
+  const db = await DB.getInstance(env);
+  const memories = await db.getMemories(userId, "short", MAX_MEMORIES_PER_PASS);
+
+  const result: ConsolidationResult = { clusters: [], promoted: 0, retired: 0 };
+  if (memories.length < minClusterSize) return result;
+
+  const vectors = await loadVectors(userId, memories, env);
+
+  const clusters = clusterBySimilarity(vectors, config.consolidationThreshold)
+    .filter(indexes => indexes.length >= minClusterSize)
+    .map(indexes => indexes.map(i => memories[i]));
+
+  for (const cluster of clusters) {
+    const content = await mergeFacts(cluster.map(m => m.content), env);
+    if (!content) continue;
+
+    const sourceIds = cluster.map(m => m.id);
+
+    if (options.dryRun) {
+      result.clusters.push({ sourceIds, content, memoryId: null });
+      continue;
+    }
+
+    const memoryId = await promote(userId, cluster, content, env, config);
+    // The merged text did not make it into a long-term memory, so the sources stay
+    if (!memoryId) continue;
+
+    result.retired += await db.retireMemories(userId, sourceIds, memoryId);
+    result.promoted++;
+    result.clusters.push({ sourceIds, content, memoryId });
+  }
+
+  if (result.retired) await dispatchOutbox(userId, env);
+
+  return result;
+}
+
+/* ================================
+   CRON
+================================ */
+
+export async function consolidateAllUsers(env: Env): Promise<void> {
+  const db = await DB.getInstance(env);
+  const userIds = await db.getUsersWithShortMemories(2, MAX_USERS_PER_CRON_RUN);
+
+  for (const userId of userIds) {
+    try {
+      const { promoted, retired } = await consolidateMemories(userId, env);
+      console.log("Consolidation finished", { userId, promoted, retired });
+    } catch (err) {
+      // One user's failure must not stop the rest of the run
+      console.error("Consolidation failed", { userId, err });
+    }
+  }
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+// Stored vectors by memory, in order; a memory without one yet is embedded
+async function loadVectors(userId: string, memories: MemoryRecord[], env: Env): Promise<number[][]> {
+  const stored = new Map<string, number[]>();
+
+  for (let i = 0; i < memories.length; i += VECTOR_FETCH_BATCH_SIZE) {
+    const batch = memories.slice(i, i + VECTOR_FETCH_BATCH_SIZE);
+    for (const vector of await env.VECTORIZE.getByIds(batch.map(m => m.id))) {
+      // A vector left in another namespace is stale; embed the current content instead
+      if (vector.namespace !== `${userId}:short`) continue;
+      stored.set(vector.id, Array.from(vector.values));
+    }
+  }
+
+  const missing = memories.filter(m => !stored.has(m.id));
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const embedded = await generateEmbeddings(batch.map(m => m.content), env);
+    batch.forEach((m, j) => stored.set(m.id, embedded[j]));
+  }
+
+  return memories.map(m => stored.get(m.id)!);
+}
+
+// The long-term memory now holding the cluster, or null when it could not be stored
+async function promote(
+  userId: string,
+  cluster: MemoryRecord[],
+  content: string,
+  env: Env,
+  config: MemoryConfig
+): Promise<string | null> {
+  const db = await DB.getInstance(env);
+  const tags = await db.getTagsForMemories(cluster.map(m => m.id));
+
+  // Already known long-term: the merged text and tags are folded into the existing memory
+  const { status, memoryId } = await writeMemory(
+    {
+      userId,
+      tier: "long",
+      content,
+      importance: Math.max(...cluster.map(m => m.importance ?? 0)),
+      source: "consolidation",
+      tags: [...new Set([...tags.values()].flat())],
+    },
+    env,
+    { policy: "merge", config, detectConflicts: false }
+  );
+
+  // duplicate_of means the merge into the existing memory failed
+  return status === "duplicate_of" ? null : memoryId;
+}
+
+// Leader clustering: each unassigned memory claims every later unassigned
+// memory above the threshold, which avoids single-linkage chaining
+function clusterBySimilarity(vectors: number[][], threshold: number): number[][] {
+  const assigned = new Array<boolean>(vectors.length).fill(false);
+  const clusters: number[][] = [];
+
+  for (let i = 0; i < vectors.length; i++) {
+    if (assigned[i]) continue;
+    assigned[i] = true;
+
+    const cluster = [i];
+    for (let j = i + 1; j < vectors.length; j++) {
+      if (!assigned[j] && cosineSimilarity(vectors[i], vectors[j]) >= threshold) {
+        assigned[j] = true;
+        cluster.push(j);
+      }
+    }
+    clusters.push(cluster);
+  }
+
+  return clusters;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
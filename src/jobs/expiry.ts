@@ -0,0 +1,36 @@
+import { DB } from "../db/db";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const EXPIRY_CRON = "*/15 * * * *";
+
+// D1 caps bound parameters at 100 per statement
+const SWEEP_BATCH_SIZE = 100;
+// Bounds a single cron invocation; leftovers go in the next run
+const MAX_BATCHES_PER_RUN = 20;
+
+/* ================================
+   SWEEP
+================================ */
+
+export async function sweepExpiredMemories(env: Env): Promise<number> {
+  const db = await DB.getInstance(env);
+  const now = Date.now();
+  let swept = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const ids = await db.getExpiredMemoryIds(now, SWEEP_BATCH_SIZE);
+    if (!ids.length) break;
+
+    // Vectors first, so a failure leaves rows that the next run retries
+    await env.VECTORIZE.deleteByIds(ids);
+    swept += await db.deleteMemoriesByIds(ids);
+
+    if (ids.length < SWEEP_BATCH_SIZE) break;
+  }
+
+  console.log("Expired memory sweep finished", { swept });
+  return swept;
+}
@@ -0,0 +1,163 @@
+import { DB, type OutboxEntry } from "../db/db";
+import { generateEmbeddings, toMemoryVector, updateVectorMetadata } from "../db/vectorize";
+import { indexMemoryGraph } from "../db/graph";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const OUTBOX_RELAY_CRON = "*/5 * * * *";
+
+// Queue sendBatch accepts at most 100 messages
+const DISPATCH_BATCH_SIZE = 100;
+// A clear can queue thousands of entries; the relay sends whatever is left over
+const MAX_DISPATCH_BATCHES = 5;
+const MAX_RELAY_BATCHES_PER_RUN = 10;
+// Gives the inline dispatch a chance before the relay picks an entry up
+const RELAY_GRACE_MS = 1000 * 60;
+// Longer than the whole retry schedule, so an entry this old lost its message
+const LOST_MESSAGE_MS = 1000 * 60 * 60;
+// A vector delete that ran out of attempts is tried again after this long;
+// nothing else would remove the vector of a trashed or cleared memory
+const DEAD_DELETE_RETRY_MS = 1000 * 60 * 60;
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_SECONDS = 10;
+const MAX_RETRY_DELAY_SECONDS = 60 * 15;
+
+/* ================================
+   TYPES
+================================ */
+
+export type IndexMessage = OutboxEntry;
+
+/* ================================
+   PRODUCER
+================================ */
+
+/**
+ * Sends a user's queued outbox entries right after the D1 write that created
+ * them. Best effort: anything that fails to send is picked up by the relay.
+ */
+export async function dispatchOutbox(userId: string, env: Env): Promise<void> {
+  try {
+    const db = await DB.getInstance(env);
+
+    for (let batch = 0; batch < MAX_DISPATCH_BATCHES; batch++) {
+      const entries = await db.getUndispatchedOutbox(userId, DISPATCH_BATCH_SIZE);
+      await send(entries, env);
+      if (entries.length < DISPATCH_BATCH_SIZE) break;
+    }
+  } catch (err) {
+    console.error("Outbox dispatch failed", { userId, err });
+  }
+}
+
+export async function relayOutbox(env: Env): Promise<number> {
+  const db = await DB.getInstance(env);
+  const now = Date.now();
+  let relayed = 0;
+
+  // Requeued entries are new to the outbox, so the next run sends them
+  const requeued = await db.requeueDeadLetterDeletes(now - DEAD_DELETE_RETRY_MS, DISPATCH_BATCH_SIZE);
+
+  for (let batch = 0; batch < MAX_RELAY_BATCHES_PER_RUN; batch++) {
+    const entries = await db.getStaleOutbox(now - RELAY_GRACE_MS, now - LOST_MESSAGE_MS, DISPATCH_BATCH_SIZE);
+    if (!entries.length) break;
+
+    await send(entries, env);
+    relayed += entries.length;
+
+    if (entries.length < DISPATCH_BATCH_SIZE) break;
+  }
+
+  console.log("Outbox relay finished", { relayed, requeued });
+  return relayed;
+}
+
+/* ================================
+   CONSUMER
+================================ */
+
+export async function handleIndexBatch(batch: MessageBatch<IndexMessage>, env: Env): Promise<void> {
+  const db = await DB.getInstance(env);
+
+  // One at a time so a bad message only retries itself
+  for (const message of batch.messages) {
+    const entry = message.body;
+
+    try {
+      await processEntry(entry, env);
+      await db.completeOutboxEntry(entry);
+      message.ack();
+    } catch (err) {
+      if (message.attempts >= MAX_ATTEMPTS) {
+        console.error("Indexing failed permanently", { entry, err });
+        await db.deadLetterOutboxEntry(entry, String(err), message.attempts);
+        message.ack();
+        continue;
+      }
+
+      const delaySeconds = Math.min(
+        BASE_RETRY_DELAY_SECONDS * 2 ** (message.attempts - 1),
+        MAX_RETRY_DELAY_SECONDS
+      );
+      console.warn("Indexing failed, retrying", { entry, attempts: message.attempts, delaySeconds });
+      message.retry({ delaySeconds });
+    }
+  }
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+async function send(entries: OutboxEntry[], env: Env): Promise<void> {
+  if (!entries.length) return;
+
+  const db = await DB.getInstance(env);
+  await env.INDEX_QUEUE.sendBatch(entries.map(body => ({ body })));
+  await db.markOutboxDispatched(entries.map(e => e.id));
+}
+
+// Always indexes the row as it is now, so out-of-order or repeated
+// messages converge on the latest content
+async function processEntry(entry: OutboxEntry, env: Env): Promise<void> {
+  const db = await DB.getInstance(env);
+  const memory = await db.getMemoryById(entry.memoryId, entry.userId);
+
+  if (entry.operation === "delete") {
+    // Restored since it was trashed; deleting now would drop a live memory's vector
+    if (memory) return;
+
+    await env.VECTORIZE.deleteByIds([entry.memoryId]);
+    return;
+  }
+
+  // Deleted since it was queued; its delete entry handles the vector
+  if (!memory) return;
+
+  if (entry.operation === "metadata") {
+    // A queued upsert writes the tags with the new vector; rewriting the old one could overtake it
+    if (await db.hasQueuedUpsert(memory.id)) return;
+
+    await updateVectorMetadata(memory.id, { tags: await db.getTags(memory.id) }, env);
+    return;
+  }
+
+  const [[vector], tags] = await Promise.all([
+    generateEmbeddings(memory.content, env),
+    db.getTags(memory.id),
+  ]);
+  if (!vector) throw new Error("Invalid embedding");
+
+  await env.VECTORIZE.upsert([toMemoryVector(memory, vector, tags)]);
+
+  // After the vector, and outside the retry: a failed extraction only costs
+  // this memory its graph entries until the next update
+  try {
+    await indexMemoryGraph(memory, env);
+  } catch (err) {
+    console.error("Graph extraction failed", { memoryId: memory.id, err });
+  }
+}
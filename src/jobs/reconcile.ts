@@ -0,0 +1,252 @@
+import { DB, ID_CHUNK_SIZE, type MemoryRecord, type MemoryTier } from "../db/db";
+import { generateEmbeddings, toMemoryVector, type MemoryMetadata } from "../db/vectorize";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const RECONCILE_CRON = "30 3 * * *";
+
+const MAX_USERS_PER_CRON_RUN = 5;
+// A Worker invocation may make 1000 subrequests, and every D1, Vectorize and
+// Workers AI call counts; the rest is left to the route and the cron
+const SUBREQUEST_BUDGET = 800;
+// listMemories' largest page
+const PAGE_SIZE = 100;
+// Vectorize caps getByIds at 20 ids per call
+const VECTOR_FETCH_BATCH_SIZE = 20;
+const EMBEDDING_BATCH_SIZE = 50;
+// Embedding, tag lookup, upsert and status update
+const REINDEX_CALLS_PER_BATCH = 4;
+// Vectorize cannot list a namespace, so orphans are found by probing it with
+// random vectors; each run samples a different slice of the index
+const ORPHAN_PROBES_PER_TIER = 5;
+const PROBE_TOP_K = 100;
+// Output size of @cf/baai/bge-m3, the model behind generateEmbeddings
+const EMBEDDING_DIMENSIONS = 1024;
+
+/* ================================
+   TYPES
+================================ */
+
+export type ReconcileOptions = {
+  repair?: boolean;
+  // nextCursor of a run that stopped at its subrequest budget
+  cursor?: string;
+  subrequests?: number;
+};
+
+export type ReconcileReport = {
+  checked: number;
+  // D1 rows with no vector
+  missingVectors: string[];
+  // vectors whose D1 row is gone or trashed; sampled, see ORPHAN_PROBES_PER_TIER
+  orphanVectors: string[];
+  // vectors whose metadata content or namespace disagrees with D1
+  staleVectors: string[];
+  repaired: {
+    reindexed: number;
+    deleted: number;
+  } | null;
+  // Set when the budget ran out before the last row; pass it as cursor to go on
+  nextCursor: string | null;
+};
+
+type Budget = { remaining: number };
+
+/* ================================
+   RECONCILE
+================================ */
+
+/**
+ * Compares a user's D1 rows with their Vectorize entries. D1 is the source of
+ * truth, so repair re-embeds rows whose vector is missing or stale and deletes
+ * vectors that have no row. Rows are read a page at a time until the
+ * subrequest budget would run out; the report's nextCursor continues there.
+ */
+export async function reconcileMemories(
+  userId: string,
+  env: Env,
+  options: ReconcileOptions = {}
+): Promise<ReconcileReport> {
+  const db = await DB.getInstance(env);
+  const budget: Budget = { remaining: options.subrequests ?? SUBREQUEST_BUDGET };
+
+  const report: ReconcileReport = {
+    checked: 0,
+    missingVectors: [],
+    orphanVectors: [],
+    staleVectors: [],
+    repaired: null,
+    nextCursor: null,
+  };
+  let reindexed = 0;
+
+  // Orphans first: their cost is fixed, the pages take whatever is left
+  report.orphanVectors = await findOrphanVectors(userId, env, budget);
+  if (options.repair && report.orphanVectors.length) {
+    await env.VECTORIZE.deleteByIds(report.orphanVectors);
+    budget.remaining--;
+  }
+
+  let cursor = options.cursor;
+  do {
+    if (budget.remaining < pageCost(options.repair)) {
+      report.nextCursor = cursor ?? null;
+      break;
+    }
+
+    const page = await db.listMemories(userId, { limit: PAGE_SIZE, cursor });
+    budget.remaining--;
+
+    const { missing, stale } = await compareWithVectors(userId, page.memories, env, budget);
+    report.checked += page.memories.length;
+    report.missingVectors.push(...missing.map(m => m.id));
+    report.staleVectors.push(...stale.map(m => m.id));
+
+    if (options.repair) {
+      reindexed += await reindex([...missing, ...stale], env, budget);
+    }
+
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+
+  if (options.repair) {
+    report.repaired = { reindexed, deleted: report.orphanVectors.length };
+  }
+
+  return report;
+}
+
+/* ================================
+   CRON
+================================ */
+
+export async function reconcileAllUsers(env: Env): Promise<void> {
+  const db = await DB.getInstance(env);
+  const userIds = await db.sampleUserIds(MAX_USERS_PER_CRON_RUN);
+
+  for (const userId of userIds) {
+    try {
+      // Each user gets an equal share; a user left unfinished is picked up on a later sample
+      const report = await reconcileMemories(userId, env, {
+        repair: true,
+        subrequests: Math.floor(SUBREQUEST_BUDGET / MAX_USERS_PER_CRON_RUN),
+      });
+      console.log("Reconciliation finished", {
+        userId,
+        checked: report.checked,
+        missing: report.missingVectors.length,
+        orphans: report.orphanVectors.length,
+        stale: report.staleVectors.length,
+        finished: report.nextCursor === null,
+      });
+    } catch (err) {
+      // One user's failure must not stop the rest of the run
+      console.error("Reconciliation failed", { userId, err });
+    }
+  }
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+// One D1 page, its getByIds calls, and re-embedding every row on it
+function pageCost(repair: boolean | undefined): number {
+  const fetches = Math.ceil(PAGE_SIZE / VECTOR_FETCH_BATCH_SIZE);
+  const reindexCalls = repair ? Math.ceil(PAGE_SIZE / EMBEDDING_BATCH_SIZE) * REINDEX_CALLS_PER_BATCH : 0;
+  return 1 + fetches + reindexCalls;
+}
+
+async function compareWithVectors(
+  userId: string,
+  memories: MemoryRecord[],
+  env: Env,
+  budget: Budget
+): Promise<{ missing: MemoryRecord[]; stale: MemoryRecord[] }> {
+  const missing: MemoryRecord[] = [];
+  const stale: MemoryRecord[] = [];
+
+  for (let i = 0; i < memories.length; i += VECTOR_FETCH_BATCH_SIZE) {
+    const batch = memories.slice(i, i + VECTOR_FETCH_BATCH_SIZE);
+    const vectors = await env.VECTORIZE.getByIds(batch.map(m => m.id));
+    budget.remaining--;
+    const byId = new Map(vectors.map(v => [v.id, v]));
+
+    for (const memory of batch) {
+      // Queued for indexing already; the outbox relay covers lost messages
+      if (memory.index_status === "pending") continue;
+
+      const vector = byId.get(memory.id);
+      const meta = vector?.metadata as MemoryMetadata | undefined;
+
+      if (!vector) {
+        missing.push(memory);
+      } else if (meta?.content !== memory.content || vector.namespace !== `${userId}:${memory.tier}`) {
+        stale.push(memory);
+      }
+    }
+  }
+
+  return { missing, stale };
+}
+
+async function findOrphanVectors(userId: string, env: Env, budget: Budget): Promise<string[]> {
+  const tiers: MemoryTier[] = ["short", "long"];
+  const seen = new Set<string>();
+
+  for (const tier of tiers) {
+    for (let probe = 0; probe < ORPHAN_PROBES_PER_TIER && budget.remaining > 0; probe++) {
+      const results = await env.VECTORIZE.query(randomVector(EMBEDDING_DIMENSIONS), {
+        namespace: `${userId}:${tier}`,
+        topK: PROBE_TOP_K,
+        returnValues: false,
+        returnMetadata: "none",
+      });
+      budget.remaining--;
+
+      for (const match of results.matches ?? []) seen.add(match.id);
+
+      // Fewer matches than asked for means the whole namespace was seen
+      if ((results.matches?.length ?? 0) < PROBE_TOP_K) break;
+    }
+  }
+
+  if (!seen.size) return [];
+
+  // Read after the probes, not before: a row always exists before its vector,
+  // so an id with no row here cannot be a memory indexed during the run
+  const db = await DB.getInstance(env);
+  const known = await db.getKnownMemoryIds(userId, [...seen]);
+  budget.remaining -= Math.ceil(seen.size / ID_CHUNK_SIZE);
+
+  return [...seen].filter(id => !known.has(id));
+}
+
+async function reindex(memories: MemoryRecord[], env: Env, budget: Budget): Promise<number> {
+  const db = await DB.getInstance(env);
+  let reindexed = 0;
+
+  for (let i = 0; i < memories.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = memories.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const [vectors, tags] = await Promise.all([
+      generateEmbeddings(batch.map(m => m.content), env),
+      db.getTagsForMemories(batch.map(m => m.id)),
+    ]);
+
+    // upsert also moves a vector that ended up in the wrong namespace
+    await env.VECTORIZE.upsert(
+      batch.map((m, j) => toMemoryVector(m, vectors[j], tags.get(m.id) ?? []))
+    );
+    await db.setIndexStatus(batch.map(m => m.id), "indexed");
+    budget.remaining -= REINDEX_CALLS_PER_BATCH;
+    reindexed += batch.length;
+  }
+
+  return reindexed;
+}
+
+function randomVector(dimensions: number): number[] {
+  return Array.from({ length: dimensions }, () => Math.random() * 2 - 1);
+}
@@ -0,0 +1,46 @@
+import { DB } from "../db/db";
+
+/* ================================
+   CONFIG
+================================ */
+
+export const TRASH_PURGE_CRON = "0 4 * * *";
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+// D1 caps bound parameters at 100 per statement
+const PURGE_BATCH_SIZE = 100;
+// Bounds a single cron invocation; leftovers go in the next run
+const MAX_BATCHES_PER_RUN = 20;
+
+export function trashRetentionMs(env: Env): number {
+  const days = Number(env.TRASH_RETENTION_DAYS) || DEFAULT_TRASH_RETENTION_DAYS;
+  return days * 24 * 60 * 60 * 1000;
+}
+
+/* ================================
+   PURGE
+================================ */
+
+export async function purgeTrash(env: Env): Promise<number> {
+  const db = await DB.getInstance(env);
+  const cutoff = Date.now() - trashRetentionMs(env);
+  let purged = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const ids = await db.getPurgeableTrashIds(cutoff, PURGE_BATCH_SIZE);
+    if (!ids.length) break;
+
+    // The delete queued when the memory was trashed normally removed the
+    // vector already; this covers entries that were dead-lettered
+    await env.VECTORIZE.deleteByIds(ids);
+    purged += await db.deleteMemoriesByIds(ids);
+
+    if (ids.length < PURGE_BATCH_SIZE) break;
+  }
+
+  // Chunk rows go with their memories; the document rows follow on the same cutoff
+  const documents = await db.purgeDeletedDocuments(cutoff);
+
+  console.log("Trash purge finished", { purged, documents });
+  return purged;
+}
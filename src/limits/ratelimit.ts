@@ -0,0 +1,73 @@
+import type { Context, MiddlewareHandler } from "hono";
+import type { AppEnv } from "../auth/auth";
+
+/* ================================
+   CONFIG
+================================ */
+
+// Each operation class has its own ratelimit binding (see wrangler.jsonc),
+// so expensive AI calls cannot starve plain reads and writes
+export type OperationClass = "read" | "write" | "search" | "ai";
+
+type LimiterBinding =
+  | "RATE_LIMITER"
+  | "WRITE_RATE_LIMITER"
+  | "SEARCH_RATE_LIMITER"
+  | "AI_RATE_LIMITER";
+
+const LIMITERS: Record<OperationClass, { binding: LimiterBinding; periodSeconds: number }> = {
+  read: { binding: "RATE_LIMITER", periodSeconds: 60 },
+  write: { binding: "WRITE_RATE_LIMITER", periodSeconds: 60 },
+  search: { binding: "SEARCH_RATE_LIMITER", periodSeconds: 60 },
+  ai: { binding: "AI_RATE_LIMITER", periodSeconds: 60 },
+};
+
+/* ================================
+   TYPES
+================================ */
+
+export type RateLimitResult = {
+  allowed: boolean;
+  retryAfterSeconds: number;
+};
+
+/* ================================
+   CHECK
+================================ */
+
+export async function checkRateLimit(
+  env: Env,
+  userId: string,
+  operation: OperationClass
+): Promise<RateLimitResult> {
+  const { binding, periodSeconds } = LIMITERS[operation];
+  const { success } = await env[binding].limit({ key: `${userId}:${operation}` });
+
+  // The binding does not report when the window resets, so the
+  // full period is the only safe hint for clients
+  return { allowed: success, retryAfterSeconds: success ? 0 : periodSeconds };
+}
+
+/* ================================
+   MIDDLEWARE
+================================ */
+
+// Must run after requireAuth so the limit keys on the verified user
+export function rateLimit(operation: OperationClass): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const limited = await rateLimitResponse(c, operation);
+    if (limited) return limited;
+
+    await next();
+  };
+}
+
+// For routes whose class depends on the request body; null when allowed
+export async function rateLimitResponse(c: Context<AppEnv>, operation: OperationClass) {
+  const { userId } = c.get("auth");
+  const { allowed, retryAfterSeconds } = await checkRateLimit(c.env, userId, operation);
+  if (allowed) return null;
+
+  c.header("Retry-After", String(retryAfterSeconds));
+  return c.json({ success: false, error: `Rate limit exceeded for ${operation} operations` }, 429);
+}
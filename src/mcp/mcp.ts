@@ -2,13 +2,85 @@ import { z } from "zod";
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 
-import { storeMemory, searchMemories, updateMemoryVector, deleteMemory as deleteVectorMemory, generateEmbeddings } from "../db/vectorize";
-import { DB } from "../db/db";
-
-const TEXT_MODEL = "@cf/meta/llama-3.1-8b-instruct-fp8";
+import {
+  searchMemories,
+  toSearchFilters,
+  type DocumentHit,
+  type SearchMode,
+  type SearchFilterInput
+} from "../db/vectorize";
+import {
+  DB,
+  InvalidCursorError,
+  QuotaExceededError,
+  type ApiKeyScope,
+  type ConflictResolution,
+  type LinkType,
+  type MemorySort
+} from "../db/db";
+import { hasScope, OPERATOR_KEY_ID } from "../auth/auth";
+import { checkRateLimit, type OperationClass } from "../limits/ratelimit";
+import { summarizeMemories, extractEntities, answerFromMemories, MAX_CONTEXT_MEMORIES } from "../ai/text";
+import { consolidateMemories } from "../jobs/consolidation";
+import { reconcileMemories } from "../jobs/reconcile";
+import { buildHistory } from "../db/history";
+import { dispatchOutbox } from "../jobs/indexing";
+import { trashRetentionMs } from "../jobs/trash";
+import {
+  exportMemories,
+  importMemories,
+  parseImport,
+  type TransferFormat,
+  type ImportDuplicatePolicy,
+} from "../db/transfer";
+import { writeMemory, formatWriteOutcome, writeUsesTextModel, type DuplicatePolicy } from "../db/write";
+import {
+  applyOverrides,
+  getMemoryConfigOverrides,
+  loadMemoryConfig,
+  saveMemoryConfigOverrides,
+  type MemoryConfigOverrides
+} from "../db/settings";
+import {
+  memoryWriteShape,
+  memoryBatchWriteShape,
+  memoryIngestShape,
+  memorySearchShape,
+  memoryListShape,
+  memoryUpdateShape,
+  memoryClearShape,
+  memorySummarizeShape,
+  memoryEntitiesShape,
+  memoryAskShape,
+  memoryConsolidateShape,
+  memoryTagsShape,
+  memorySettingsShape,
+  memoryReconcileShape,
+  memoryRevertShape,
+  memoryTrashShape,
+  memoryExportShape,
+  memoryImportShape,
+  memoryEntityLookupShape,
+  memoryEntityMemoriesShape,
+  memoryEntityNeighboursShape,
+  memoryLinkShape,
+  memoryUnlinkShape,
+  memoryConflictsShape,
+  memoryDocumentAddShape,
+  memoryDocumentShape,
+  memoryDocumentListShape
+} from "../api/schemas";
+import { linkMemories, describeLink } from "../db/links";
+import { findEntities, resolveEntity, traverseNeighbours } from "../db/graph";
+import { resolveConflict } from "../db/conflicts";
+import { ingestConversation, type ConversationMessage } from "../db/ingest";
+import { addDocument, DocumentTooLargeError } from "../db/documents";
 
 type MCPProps = {
   userId: string;
+  scopes: ApiKeyScope[];
+  // Missing on OAuth tokens issued before it was added
+  keyId?: string;
 };
 
 export class MyMCP extends McpAgent<Env, {}, MCPProps> {
@@ -17,6 +89,57 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
     version: "1.0.0",
   });
 
+  private async authorize(scope: ApiKeyScope, operation: OperationClass) {
+    if (!hasScope(this.props?.scopes ?? [], scope)) {
+      return this.errorResult(`Permission denied: this credential lacks the "${scope}" scope.`);
+    }
+
+    // An OAuth token lives on after the API key that approved it, so the key is checked on every call
+    const keyId = this.props?.keyId;
+    if (keyId && keyId !== OPERATOR_KEY_ID) {
+      const db = await DB.getInstance(this.env);
+      if (!await db.isApiKeyActive(keyId, this.props!.userId)) {
+        return this.errorResult("Permission denied: the API key behind this credential has been revoked.");
+      }
+    }
+
+    return this.rateLimited(operation);
+  }
+
+  // For tools whose class depends on their input; call after authorize
+  private async rateLimited(operation: OperationClass) {
+    const { allowed, retryAfterSeconds } = await checkRateLimit(
+      this.env,
+      this.props!.userId,
+      operation
+    );
+
+    if (!allowed) {
+      return this.errorResult(
+        `Rate limit exceeded for ${operation} operations. Retry after ${retryAfterSeconds} seconds.`
+      );
+    }
+
+    return null;
+  }
+
+  // Recorded as the author of edits in memory_versions
+  private actor(): string {
+    return this.props?.keyId ?? "mcp";
+  }
+
+  private errorResult(text: string) {
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text,
+        },
+      ],
+      isError: true,
+    };
+  }
+
   async init() {
     const server = this.server as unknown as McpServer;
 
@@ -28,15 +151,10 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       "memory_write",
       {
         description:
-          "Store durable user information in persistent memory with optional metadata. Use this tool when you need to save important facts, preferences, settings, or context about the user that should be retained across conversations. Supports both short-term (temporary, session-based) and long-term (persistent) memory tiers. Include an importance score (0-1) to indicate how critical the memory is for future interactions.",
-        inputSchema: {
-          content: z.string().describe("The information to store"),
-          tier: z.enum(["short", "long"]).describe("Memory tier"),
-          importance: z.number().min(0).max(1).optional().describe("Importance score 0-1"),
-          source: z.string().optional().describe("Source of the memory"),
-        },
+          "Store durable user information in persistent memory with optional metadata. Use this tool when you need to save important facts, preferences, settings, or context about the user that should be retained across conversations. Supports both short-term (temporary, session-based, expires after a TTL) and long-term (persistent) memory tiers. Include an importance score (0-1) to indicate how critical the memory is for future interactions. Near-duplicates of an existing memory are not stored twice: by default the existing memory is kept (duplicate_of), onDuplicate merge folds the new facts into it (merged_into) and insert always stores a new memory. A new memory is also checked against related ones; any it contradicts are listed in the result as open conflicts to settle with memory_conflicts.",
+        inputSchema: memoryWriteShape,
       },
-      async ({ content, tier, importance, source }: { content: string; tier: "short" | "long"; importance?: number; source?: string }) => {
+      async ({ content, tier, importance, source, ttlSeconds, tags, onDuplicate }: { content: string; tier: "short" | "long"; importance?: number; source?: string; ttlSeconds?: number; tags?: string[]; onDuplicate?: DuplicatePolicy }) => {
         try {
           const userId = this.props?.userId;
 
@@ -44,27 +162,47 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
-          const db = await DB.getInstance(this.env);
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
 
-          const memoryId = await db.createMemory({
-            userId,
-            tier,
-            content,
-            importance,
-            source,
-          });
+          const config = await loadMemoryConfig(userId, this.env);
+          if (writeUsesTextModel(onDuplicate, config)) {
+            const limited = await this.rateLimited("ai");
+            if (limited) return limited;
+          }
+
+          const outcome = await writeMemory(
+            { userId, tier, content, importance, source, ttlSeconds, tags },
+            this.env,
+            { policy: onDuplicate, config }
+          );
+
+          const text = outcome.status === "created"
+            ? `Memory stored successfully with ID: ${outcome.memoryId} (searchable once indexed)`
+            : outcome.status === "merged_into"
+              ? `Merged into existing memory ${outcome.memoryId}`
+              : `Not stored: duplicate of existing memory ${outcome.memoryId}`;
 
-          await storeMemory(content, userId, tier, this.env, memoryId);
+          const conflicts = outcome.conflicts?.length
+            ? `\n\nThis memory contradicts ${outcome.conflicts.length} existing memories:\n` +
+              outcome.conflicts
+                .map(c => `- ${c.content} (ID: ${c.memoryId}, conflict: ${c.conflictId})${c.reason ? `: ${c.reason}` : ""}`)
+                .join("\n") +
+              "\nAsk the user which is correct, then settle each conflict with memory_conflicts (keep_new, keep_existing, keep_both or merge)."
+            : "";
 
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Memory stored successfully with ID: ${memoryId}`,
+                text: `${text}\nOutcome: ${formatWriteOutcome(outcome)}${conflicts}`,
               },
             ],
           };
         } catch (error) {
+          if (error instanceof QuotaExceededError) {
+            return this.errorResult(error.message);
+          }
           console.error("Error storing memory:", error);
           return {
             content: [
@@ -87,15 +225,9 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       {
         description:
           "Efficiently store multiple memories in a single operation. Use this tool when you need to save 2 or more related pieces of information simultaneously (e.g., extracting and storing multiple facts from a conversation, importing bulk information). This is significantly more efficient than calling memory_write repeatedly. Supports up to 50 memories per batch, each with independent tier and importance settings.",
-        inputSchema: {
-          memories: z.array(z.object({
-            content: z.string().describe("The information to store"),
-            tier: z.enum(["short", "long"]).describe("Memory tier"),
-            importance: z.number().min(0).max(1).optional().describe("Importance score 0-1"),
-          })).min(1).max(50).describe("Array of memories to store"),
-        },
+        inputSchema: memoryBatchWriteShape,
       },
-      async ({ memories }: { memories: Array<{ content: string; tier: "short" | "long"; importance?: number }> }) => {
+      async ({ memories }: { memories: Array<{ content: string; tier: "short" | "long"; importance?: number; source?: string; ttlSeconds?: number; tags?: string[] }> }) => {
         try {
           const userId = this.props?.userId;
 
@@ -103,6 +235,9 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
           const db = await DB.getInstance(this.env);
 
           const rows = memories.map((m) => ({
@@ -111,49 +246,99 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             tier: m.tier,
             content: m.content,
             importance: m.importance,
+            source: m.source,
+            ttlSeconds: m.ttlSeconds,
+            tags: m.tags,
           }));
 
-          const memoryIds = await db.batchCreateMemories(
-            rows
-          );
-
-          const embeddings = await generateEmbeddings(
-            memories.map((m) => m.content),
-            this.env
-          );
+          // The rows commit together with their outbox entries; the queue embeds them
+          await db.batchCreateMemories(rows);
+          await dispatchOutbox(userId, this.env);
 
-          const vectorInserts = memories.map((m, i) => {
-            const id = memoryIds[i];
-            return {
-              id,
-              values: embeddings[i],
-              namespace: `${userId}:${m.tier}`,
-              metadata: {
-                userId,
-                tier: m.tier,
-                content: m.content,
-                createdAt: Date.now(),
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Successfully stored ${memories.length} memories. They become searchable once indexed.`,
               },
-            };
-          });
+            ],
+          };
+        } catch (error) {
+          if (error instanceof QuotaExceededError) {
+            return this.errorResult(error.message);
+          }
+          console.error("Error batch storing memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to batch store memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       INGEST CONVERSATION TOOL
+    ===================================== */
+
+    server.registerTool(
+      "memory_ingest_conversation",
+      {
+        description:
+          "Extract and store memories from a conversation transcript. Use this tool at the end of a conversation, or every few turns, instead of deciding fact by fact what to pass to memory_write. Pass the messages in order; the newest ones are read if the transcript is too long. Each fact worth remembering is stored as its own short memory with a suggested tier and importance, and facts already known are skipped. Reports what was stored and what was skipped and why.",
+        inputSchema: memoryIngestShape,
+      },
+      async ({ messages, source, tags }: { messages: ConversationMessage[]; source?: string; tags?: string[] }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "ai");
+          if (denied) return denied;
+
+          const report = await ingestConversation(userId, messages, this.env, { source, tags });
 
-          await this.env.VECTORIZE.insert(vectorInserts);
+          if (!report) {
+            return this.errorResult("Failed to extract facts from the conversation.");
+          }
+
+          const stored = report.stored
+            .map((f) => `- [${f.tier}, ${f.importance}] ${f.content} (ID: ${f.id})`)
+            .join("\n");
+          const skipped = report.skipped
+            .map((f) => `- ${f.content} (${f.reason === "duplicate" ? `duplicate of ${f.memoryId}` : "repeated in conversation"})`)
+            .join("\n");
+
+          const text = [
+            `Read ${report.messagesRead} of ${messages.length} messages. Stored ${report.stored.length} memories, skipped ${report.skipped.length}.`,
+            stored && `Stored (searchable once indexed):\n${stored}`,
+            skipped && `Skipped:\n${skipped}`,
+          ].filter(Boolean).join("\n\n");
 
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Successfully stored ${memories.length} memories.`,
+                text,
               },
             ],
           };
         } catch (error) {
-          console.error("Error batch storing memories:", error);
+          if (error instanceof QuotaExceededError) {
+            return this.errorResult(error.message);
+          }
+          console.error("Error ingesting conversation:", error);
           return {
             content: [
               {
                 type: "text" as const,
-                text: "Failed to batch store memories.",
+                text: "Failed to ingest conversation.",
               },
             ],
           };
@@ -169,14 +354,10 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       "memory_search",
       {
         description:
-          "Search for relevant memories using semantic similarity to find contextually related information. Use this tool to retrieve memories that match a query's meaning rather than exact keywords. Useful for answering questions about what you know about a user, finding related context, or retrieving relevant facts without knowing exact wording. Returns ranked results with relevance scores. Specify tier to search only short-term or long-term memories.",
-        inputSchema: {
-          query: z.string().describe("Search query"),
-          tier: z.enum(["short", "long"]).describe("Memory tier"),
-          limit: z.number().min(1).max(50).optional().describe("Max results to return"),
-        },
+          "Search for relevant memories using semantic similarity to find contextually related information. Use this tool to retrieve memories that match a query's meaning rather than exact keywords. Useful for answering questions about what you know about a user, finding related context, or retrieving relevant facts without knowing exact wording. Returns ranked results with relevance scores, each labeled with its tier. Searches both tiers unless tier is given. By default semantic and keyword (exact token) matches are combined; use mode to pick one. Use filters to narrow by source, minimum importance, creation date range or tags. Ranking also favours important and frequently recalled memories; set explain to see how each score was built. A memory superseded by a newer one (see memory_link) is replaced by the newer memory in the results. Chunks of a stored document (see memory_document_add) are grouped into one result per document; set documentContext to also get the chunks around each match, or fullDocument for the whole text.",
+        inputSchema: memorySearchShape,
       },
-      async ({ query, tier, limit }: { query: string; tier: "short" | "long"; limit?: number }) => {
+      async ({ query, tier, limit, mode, filters, explain, documentContext, fullDocument }: { query: string; tier?: "short" | "long"; limit?: number; mode?: SearchMode; filters?: SearchFilterInput; explain?: boolean; documentContext?: number; fullDocument?: boolean }) => {
         try {
           const userId = this.props?.userId;
 
@@ -184,12 +365,17 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("read", "search");
+          if (denied) return denied;
+
           const results = await searchMemories(
             query,
             userId,
             tier,
             this.env,
-            limit ?? 10
+            limit ?? 10,
+            undefined,
+            { mode, filters: toSearchFilters(filters), explain, documentContext, fullDocument }
           );
 
           if (!results.length) {
@@ -204,7 +390,19 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
           }
 
           const formatted = results
-            .map((m, i) => `${i + 1}. [Score: ${m.score.toFixed(3)}] ${m.content}`)
+            .map((m, i) => {
+              // IDs let the caller pass results on to memory_link or memory_get
+              const supersession = m.supersededBy
+                ? `, superseded by ${m.supersededBy}`
+                : m.supersedes ? `, supersedes ${m.supersedes.join(", ")}` : "";
+              const line = m.document
+                ? `${i + 1}. [document] [Score: ${m.score.toFixed(3)}] "${m.document.title}" (ID: ${m.document.id}, matched chunks ${m.document.matchedChunks.map(n => n + 1).join(", ")} of ${m.document.chunkCount})${formatDocumentHit(m.document)}`
+                : `${i + 1}. [${m.tier}] [Score: ${m.score.toFixed(3)}] ${m.content} (ID: ${m.id}${supersession})`;
+              if (!m.breakdown) return line;
+
+              const { semantic, recency, importance, access } = m.breakdown;
+              return `${line}\n   semantic ${semantic.toFixed(3)} + recency ${recency.toFixed(3)} + importance ${importance.toFixed(3)} + access ${access.toFixed(3)}`;
+            })
             .join("\n");
 
           return {
@@ -237,12 +435,10 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       "memory_list",
       {
         description:
-          "Retrieve a list of all stored memories with optional filtering by tier. Use this tool to browse or audit the user's stored memories, see what information is available, or get a complete inventory of short-term vs long-term memories. Returns memories with creation dates and content previews. Optionally filter by tier (short or long) to view only one memory category.",
-        inputSchema: {
-          tier: z.enum(["short", "long"]).optional().describe("Filter by tier (optional)"),
-        },
+          "Retrieve a page of stored memories with optional filtering by tier and tags. Use this tool to browse or audit the user's stored memories, see what information is available, or get a complete inventory of short-term vs long-term memories. Returns memories with IDs, tags, creation dates and content previews. Optionally filter by tier (short or long) to view only one memory category, or by tags to view one collection. Sort by newest (default), oldest, importance or last updated. When more memories remain, the result ends with a cursor; call again with it and the same sort for the next page.",
+        inputSchema: memoryListShape,
       },
-      async ({ tier }: { tier?: "short" | "long" }) => {
+      async ({ tier, tags, sort, limit, cursor }: { tier?: "short" | "long"; tags?: string[]; sort?: MemorySort; limit?: number; cursor?: string }) => {
         try {
           const userId = this.props?.userId;
 
@@ -250,14 +446,18 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
           const db = await DB.getInstance(this.env);
 
-          let memories;
-          if (tier) {
-            memories = await db.getMemories(userId, tier);
-          } else {
-            memories = await db.getAllMemories(userId);
-          }
+          const { memories, nextCursor } = await db.listMemories(userId, {
+            tier,
+            filters: { tags },
+            sort,
+            limit,
+            cursor,
+          });
 
           if (!memories.length) {
             return {
@@ -270,11 +470,16 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             };
           }
 
-          const formatted = (memories as Array<{ id: string; tier?: string; content: string; created_at: number }>)
+          const memoryTags = await db.getTagsForMemories(memories.map((m) => m.id));
+
+          const formatted = (memories as Array<{ id: string; tier?: string; content: string; created_at: number; index_status: string }>)
             .map((m, i) => {
               const date = new Date(m.created_at).toISOString().split("T")[0];
               const tierLabel = m.tier ? `[${m.tier}]` : "";
-              return `${i + 1}. ${tierLabel} ${m.content.substring(0, 100)}${m.content.length > 100 ? "..." : ""} (${date})`;
+              const tagLabel = memoryTags.get(m.id)?.length ? ` #${memoryTags.get(m.id)!.join(" #")}` : "";
+              // Only worth calling out when the memory is not searchable yet
+              const indexLabel = m.index_status !== "indexed" ? `, index: ${m.index_status}` : "";
+              return `${i + 1}. ${tierLabel} ${m.content.substring(0, 100)}${m.content.length > 100 ? "..." : ""}${tagLabel} (${date}, ID: ${m.id}${indexLabel})`;
             })
             .join("\n");
 
@@ -282,11 +487,14 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             content: [
               {
                 type: "text" as const,
-                text: `Found ${memories.length} memories:\n${formatted}`,
+                text: `Found ${memories.length} memories:\n${formatted}${nextCursor ? `\nMore memories remain. Next cursor: ${nextCursor}` : ""}`,
               },
             ],
           };
         } catch (error) {
+          if (error instanceof InvalidCursorError) {
+            return this.errorResult(error.message);
+          }
           console.error("Error listing memories:", error);
           return {
             content: [
@@ -311,7 +519,7 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
           "Update the content of an existing memory while preserving its ID and metadata. Use this tool to correct, clarify, or enhance previously stored information. The memory vector embeddings are automatically recalculated to maintain semantic search accuracy. Useful for refining memories based on new information or correcting inaccuracies.",
         inputSchema: {
           memoryId: z.string().describe("ID of the memory to update"),
-          content: z.string().describe("New content for the memory"),
+          ...memoryUpdateShape,
         },
       },
       async ({ memoryId, content }: { memoryId: string; content: string }) => {
@@ -322,6 +530,9 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
           const db = await DB.getInstance(this.env);
 
           const memory = await db.getMemoryById(memoryId, userId);
@@ -336,11 +547,9 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             };
           }
 
-          const tier = (memory as { tier: "short" | "long" }).tier;
-
-          await db.updateMemory(memoryId, userId, content);
-
-          await updateMemoryVector(memoryId, content, userId, tier, this.env);
+          // The queue re-embeds the new content; the old one is kept as a version
+          await db.updateMemory(memoryId, userId, content, this.actor());
+          await dispatchOutbox(userId, this.env);
 
           return {
             content: [
@@ -372,7 +581,7 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       "memory_delete",
       {
         description:
-          "Permanently delete a specific memory by its ID. Use this tool to remove outdated, incorrect, or irrelevant information from memory. The deletion is permanent and removes the memory from both the database and vector store. Always obtain the memory ID from memory_list or memory_search before deleting.",
+          "Delete a specific memory by its ID. Use this tool to remove outdated, incorrect, or irrelevant information from memory. The memory moves to the trash and stops appearing in search and listings; it can be brought back with memory_restore until the trash is purged after the retention window. Always obtain the memory ID from memory_list or memory_search before deleting.",
         inputSchema: {
           memoryId: z.string().describe("ID of the memory to delete"),
         },
@@ -385,6 +594,9 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
           const db = await DB.getInstance(this.env);
 
           const memory = await db.getMemoryById(memoryId, userId);
@@ -399,15 +611,15 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             };
           }
 
-          await deleteVectorMemory(memoryId, this.env);
-
+          // The queue removes the vector; the row stays in the trash until purged
           await db.deleteMemory(memoryId, userId);
+          await dispatchOutbox(userId, this.env);
 
           return {
             content: [
               {
                 type: "text" as const,
-                text: "Memory deleted successfully.",
+                text: `Memory moved to trash. Restore it with memory_restore before ${new Date(Date.now() + trashRetentionMs(this.env)).toISOString()}.`,
               },
             ],
           };
@@ -433,11 +645,8 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       "memory_clear",
       {
         description:
-          "Batch delete all memories, optionally filtered by tier. Use this tool for cleanup operations when you need to remove all stored memories or reset one memory tier. This operation is permanent and cannot be undone. Requires explicit confirmation (confirm=true) to prevent accidental data loss. Useful for memory resets, tier-specific cleanup, or managing memory storage limits.",
-        inputSchema: {
-          tier: z.enum(["short", "long"]).optional().describe("Only clear memories of this tier (optional)"),
-          confirm: z.boolean().describe("Must be true to confirm deletion"),
-        },
+          "Batch delete all memories, optionally filtered by tier. Use this tool for cleanup operations when you need to remove all stored memories or reset one memory tier. Cleared memories move to the trash and can be restored with memory_restore until the trash is purged after the retention window. Requires explicit confirmation (confirm=true) to prevent accidental data loss. Useful for memory resets, tier-specific cleanup, or managing memory storage limits.",
+        inputSchema: memoryClearShape,
       },
       async ({ tier, confirm }: { tier?: "short" | "long"; confirm: boolean }) => {
         try {
@@ -447,6 +656,9 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
           if (!confirm) {
             return {
               content: [
@@ -462,27 +674,15 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
 
           const count = await db.getMemoryCount(userId, tier);
 
-          if (tier) {
-            const memories = await db.getAllMemories(userId, tier);
-            const ids = (memories as Array<{ id: string }>).map((m) => m.id);
-            if (ids.length > 0) {
-              await this.env.VECTORIZE.deleteByIds(ids);
-            }
-          } else {
-            const allMemories = await db.getAllMemories(userId);
-            const ids = (allMemories as Array<{ id: string }>).map((m) => m.id);
-            if (ids.length > 0) {
-              await this.env.VECTORIZE.deleteByIds(ids);
-            }
-          }
-
+          // Queues a vector delete for every row, expired-but-unswept ones included
           await db.clearAllMemories(userId, tier);
+          await dispatchOutbox(userId, this.env);
 
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Cleared ${count} memories${tier ? ` from ${tier}-term memory` : ""}.`,
+                text: `Moved ${count} memories${tier ? ` from ${tier}-term memory` : ""} to trash. Use memory_restore to undo.`,
               },
             ],
           };
@@ -519,6 +719,9 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
           const db = await DB.getInstance(this.env);
 
           const [totalCount, shortCount, longCount] = await Promise.all([
@@ -557,12 +760,10 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       "memory_summarize",
       {
         description:
-          "Use AI to generate a concise summary of stored memories. Use this tool to condense large amounts of information into key points, understand the main themes in the user's memories, or create executive summaries of stored context. Optionally filter by tier to summarize only short-term or long-term memories. Helpful for reviewing what you know about a user or creating context summaries.",
-        inputSchema: {
-          tier: z.enum(["short", "long"]).optional().describe("Memory tier to summarize (optional)"),
-        },
+          "Use AI to generate a concise summary of stored memories. Use this tool to condense large amounts of information into key points, understand the main themes in the user's memories, or create executive summaries of stored context. Optionally filter by tier to summarize only short-term or long-term memories, or by tags to summarize one collection. Helpful for reviewing what you know about a user or creating context summaries.",
+        inputSchema: memorySummarizeShape,
       },
-      async ({ tier }: { tier?: "short" | "long" }) => {
+      async ({ tier, tags }: { tier?: "short" | "long"; tags?: string[] }) => {
         try {
           const userId = this.props?.userId;
 
@@ -570,14 +771,16 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("read", "ai");
+          if (denied) return denied;
+
           const db = await DB.getInstance(this.env);
 
-          let memories;
-          if (tier) {
-            memories = await db.getMemories(userId, tier);
-          } else {
-            memories = await db.getAllMemories(userId);
-          }
+          const { memories } = await db.listMemories(userId, {
+            tier,
+            filters: { tags },
+            limit: MAX_CONTEXT_MEMORIES,
+          });
 
           if (!memories.length) {
             return {
@@ -590,28 +793,13 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             };
           }
 
-          const content = (memories as Array<{ content: string }>)
-            .map((m) => m.content)
-            .join("\n");
-
-          const summary = await this.env.AI.run(TEXT_MODEL, {
-            messages: [
-              {
-                role: "system",
-                content: "You are a helpful assistant that summarizes user memories. Create a concise summary of the key facts and information.",
-              },
-              {
-                role: "user",
-                content: `Summarize these memories:\n${content}`,
-              },
-            ],
-          }) as { response?: string };
+          const summary = await summarizeMemories(memories.map((m) => m.content), this.env);
 
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Summary of ${memories.length} memories:\n${summary.response ?? "Failed to generate summary"}`,
+                text: `Summary of ${memories.length} memories:\n${summary ?? "Failed to generate summary"}`,
               },
             ],
           };
@@ -637,10 +825,8 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
       "memory_extract_entities",
       {
         description:
-          "Use AI-powered named entity recognition to extract structured information from memories including people, places, organizations, dates, and other important entities. Use this tool to automatically categorize and organize the semantic content of stored memories, identify key individuals or locations mentioned, or create structured knowledge from unstructured memory text. Returns entities organized by category as JSON.",
-        inputSchema: {
-          tier: z.enum(["short", "long"]).optional().describe("Memory tier to analyze (optional)"),
-        },
+          "Use AI-powered named entity recognition to extract structured information from memories including people, places, organizations, dates, and other important entities. Use this tool to automatically categorize and organize the semantic content of stored memories, identify key individuals or locations mentioned, or create structured knowledge from unstructured memory text. Returns entities organized by category as JSON. This runs a fresh extraction; entities already stored in the knowledge graph are cheaper to query with memory_entity_lookup.",
+        inputSchema: memoryEntitiesShape,
       },
       async ({ tier }: { tier?: "short" | "long" }) => {
         try {
@@ -650,14 +836,12 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
+          const denied = await this.authorize("read", "ai");
+          if (denied) return denied;
+
           const db = await DB.getInstance(this.env);
 
-          let memories;
-          if (tier) {
-            memories = await db.getMemories(userId, tier);
-          } else {
-            memories = await db.getAllMemories(userId);
-          }
+          const { memories } = await db.listMemories(userId, { tier, limit: MAX_CONTEXT_MEMORIES });
 
           if (!memories.length) {
             return {
@@ -670,38 +854,71 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             };
           }
 
-          const content = (memories as Array<{ content: string }>)
-            .map((m) => m.content)
-            .join("\n");
+          const entities = await extractEntities(memories.map((m) => m.content), this.env);
 
-          const result = await this.env.AI.run(TEXT_MODEL, {
-            messages: [
+          return {
+            content: [
               {
-                role: "system",
-                content: "You are an entity extraction specialist. Extract all named entities from the text. Format as JSON with categories: people, places, organizations, dates, and other.",
+                type: "text" as const,
+                text: `Extracted entities:\n${entities ?? "Failed to extract entities"}`,
               },
+            ],
+          };
+        } catch (error) {
+          console.error("Error extracting entities:", error);
+          return {
+            content: [
               {
-                role: "user",
-                content: `Extract entities from:\n${content}\n\nRespond only with valid JSON.`,
+                type: "text" as const,
+                text: "Failed to extract entities.",
               },
             ],
-          }) as { response?: string };
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       AI ASK TOOL
+    ===================================== */
+
+    server.registerTool(
+      "memory_ask",
+      {
+        description:
+          "Ask natural language questions about stored memories using AI with Retrieval-Augmented Generation (RAG). The system automatically searches relevant memories and uses them as context to answer questions accurately. Use this tool to query information from memory without needing exact knowledge of what's stored, get answers based on user context, or perform semantic reasoning over stored information. Searches both tiers unless a memory tier is specified.",
+        inputSchema: memoryAskShape,
+      },
+      async ({ question, tier }: { question: string; tier?: "short" | "long" }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "ai");
+          if (denied) return denied;
+
+          const results = await searchMemories(question, userId, tier, this.env, 5);
+
+          const answer = await answerFromMemories(question, results, this.env);
 
           return {
             content: [
               {
                 type: "text" as const,
-                text: `Extracted entities:\n${result.response ?? "Failed to extract entities"}`,
+                text: answer ?? "Failed to generate answer",
               },
             ],
           };
         } catch (error) {
-          console.error("Error extracting entities:", error);
+          console.error("Error answering question:", error);
           return {
             content: [
               {
                 type: "text" as const,
-                text: "Failed to extract entities.",
+                text: "Failed to answer question.",
               },
             ],
           };
@@ -710,20 +927,68 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
     );
 
     /* =====================================
-       AI ASK TOOL
+       LINK TOOLS
     ===================================== */
 
     server.registerTool(
-      "memory_ask",
+      "memory_link",
       {
         description:
-          "Ask natural language questions about stored memories using AI with Retrieval-Augmented Generation (RAG). The system automatically searches relevant memories and uses them as context to answer questions accurately. Use this tool to query information from memory without needing exact knowledge of what's stored, get answers based on user context, or perform semantic reasoning over stored information. Optionally specify memory tier to search.",
-        inputSchema: {
-          question: z.string().describe("Question to ask about memories"),
-          tier: z.enum(["short", "long"]).optional().describe("Memory tier to search (optional)"),
-        },
+          "Record how two memories relate. supersedes marks the source as the current version of the target (e.g. a new address replacing the old one): search then shows the source in place of the target. contradicts flags two memories that cannot both be true, and related_to connects memories about the same subject. Linking twice is harmless.",
+        inputSchema: memoryLinkShape,
       },
-      async ({ question, tier }: { question: string; tier?: "short" | "long" }) => {
+      async ({ sourceId, targetId, type }: { sourceId: string; targetId: string; type: LinkType }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const outcome = await linkMemories({ userId, sourceId, targetId, type, actor: this.actor() }, this.env);
+
+          if (outcome === "not_found") {
+            return this.errorResult("Memory not found.");
+          }
+          if (outcome === "self") {
+            return this.errorResult("A memory cannot be linked to itself.");
+          }
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: outcome === "linked"
+                  ? `Linked: ${sourceId} ${describeLink({ type, direction: "out" })} ${targetId}`
+                  : "These memories were already linked this way.",
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error linking memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to link memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_unlink",
+      {
+        description:
+          "Remove links between two memories, in either direction. Pass type to remove only links of that type; otherwise every link between the two is removed. Removing a supersedes link makes the older memory show up in search again.",
+        inputSchema: memoryUnlinkShape,
+      },
+      async ({ sourceId, targetId, type }: { sourceId: string; targetId: string; type?: LinkType }) => {
         try {
           const userId = this.props?.userId;
 
@@ -731,44 +996,1283 @@ export class MyMCP extends McpAgent<Env, {}, MCPProps> {
             throw new Error("MCP props.userId missing");
           }
 
-          const searchTier = tier ?? "long";
-          const results = await searchMemories(question, userId, searchTier, this.env, 5);
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
 
-          const context = results.map((r) => r.content).join("\n");
+          const db = await DB.getInstance(this.env);
+          const removed = await db.removeMemoryLinks(userId, sourceId, targetId, type);
 
-          const answer = await this.env.AI.run(TEXT_MODEL, {
-            messages: [
+          return {
+            content: [
               {
-                role: "system",
-                content: "You are a helpful assistant that answers questions based on the user's stored memories. Use the provided context to give accurate answers. If the context doesn't contain relevant information, say so.",
+                type: "text" as const,
+                text: removed ? `Removed ${removed} links.` : "No matching links found.",
               },
+            ],
+          };
+        } catch (error) {
+          console.error("Error unlinking memories:", error);
+          return {
+            content: [
               {
-                role: "user",
-                content: `Context from memories:\n${context}\n\nQuestion: ${question}`,
+                type: "text" as const,
+                text: "Failed to unlink memories.",
               },
             ],
-          }) as { response?: string };
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_get",
+      {
+        description:
+          "Fetch one memory with its neighbourhood: every memory it supersedes, is superseded by, contradicts or is related to. Use this tool to check whether a fact is still current before relying on it, or to review conflicting memories side by side.",
+        inputSchema: {
+          memoryId: z.string().describe("ID of the memory"),
+        },
+      },
+      async ({ memoryId }: { memoryId: string }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+
+          const memory = await db.getMemoryById(memoryId, userId);
+          if (!memory) {
+            return this.errorResult("Memory not found.");
+          }
+
+          const [links, tags] = await Promise.all([
+            db.getMemoryLinks(memoryId, userId),
+            db.getTags(memoryId),
+          ]);
+
+          const date = new Date(memory.created_at).toISOString().split("T")[0];
+          const tagLabel = tags.length ? ` #${tags.join(" #")}` : "";
+          const header = `[${memory.tier}] ${memory.content}${tagLabel} (${date}, importance ${memory.importance}, ID: ${memory.id})`;
+
+          const formatted = links
+            .map((l) => `- ${describeLink(l)}: [${l.memory.tier}] ${l.memory.content} (ID: ${l.memory.id})`)
+            .join("\n");
 
           return {
             content: [
               {
                 type: "text" as const,
-                text: answer.response ?? "Failed to generate answer",
+                text: links.length ? `${header}\nLinks:\n${formatted}` : `${header}\nNo linked memories.`,
               },
             ],
           };
         } catch (error) {
-          console.error("Error answering question:", error);
+          console.error("Error getting memory:", error);
           return {
             content: [
               {
                 type: "text" as const,
-                text: "Failed to answer question.",
+                text: "Failed to get memory.",
               },
             ],
           };
         }
       }
     );
-  }
+
+    server.registerTool(
+      "memory_conflicts",
+      {
+        description:
+          "List and resolve conflicts: pairs of memories that contradict each other, found when the newer one was written. Use action list to review open conflicts (or status resolved for past ones). Once the user has said which fact is right, use action resolve with a conflictId and a resolution: keep_new deletes the older memory, keep_existing deletes the newer one, keep_both keeps both and clears the conflict, and merge combines them into one memory (the long-term one if the tiers differ, otherwise the newer one). Deleted memories go to the trash.",
+        inputSchema: memoryConflictsShape,
+      },
+      async ({ action, conflictId, resolution, status, limit }: { action: "list" | "resolve"; conflictId?: string; resolution?: ConflictResolution; status?: "open" | "resolved"; limit?: number }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          if (action === "list") {
+            const denied = await this.authorize("read", "read");
+            if (denied) return denied;
+
+            const db = await DB.getInstance(this.env);
+            const conflicts = await db.getConflicts(userId, status, limit);
+
+            const text = conflicts.length
+              ? conflicts.map(c =>
+                  `Conflict ${c.id}${c.resolution ? ` (${c.resolution})` : ""}${c.reason ? `: ${c.reason}` : ""}\n` +
+                  `  new: ${c.memory.content ?? "(deleted)"} (ID: ${c.memory.id})\n` +
+                  `  existing: ${c.conflicting.content ?? "(deleted)"} (ID: ${c.conflicting.id})`
+                ).join("\n\n")
+              : `No ${status ?? "open"} conflicts.`;
+
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text,
+                },
+              ],
+            };
+          }
+
+          if (!conflictId || !resolution) {
+            return this.errorResult("conflictId and resolution are required to resolve a conflict.");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const outcome = await resolveConflict(userId, conflictId, resolution, this.actor(), this.env);
+
+          if (outcome === "not_found") {
+            return this.errorResult("Conflict not found, or one of its memories no longer exists.");
+          }
+          if (outcome === "already_resolved") {
+            return this.errorResult("Conflict was already resolved.");
+          }
+          if (outcome === "merge_failed") {
+            return this.errorResult("Failed to merge the memories; the conflict is still open.");
+          }
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Conflict ${conflictId} resolved: ${resolution}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error handling conflicts:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to handle conflicts.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       DOCUMENT TOOLS
+    ===================================== */
+
+    server.registerTool(
+      "memory_document_add",
+      {
+        description:
+          "Store a long text, such as a design doc, meeting notes or an article, as a document. The text is split into overlapping chunks of a few hundred tokens, each stored as its own long-term memory so search can find the exact passage; search results group the chunks back under the document. Use memory_write instead for short facts.",
+        inputSchema: memoryDocumentAddShape,
+      },
+      async ({ title, content, source, importance, tags }: { title: string; content: string; source?: string; importance?: number; tags?: string[] }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const { documentId, memoryIds } = await addDocument({ userId, title, content, source, importance, tags }, this.env);
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Document stored with ID: ${documentId} as ${memoryIds.length} chunks (searchable once indexed)`,
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof QuotaExceededError || error instanceof DocumentTooLargeError) {
+            return this.errorResult(error.message);
+          }
+          console.error("Error storing document:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to store document.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_document_get",
+      {
+        description:
+          "Fetch the full text of a stored document, with the ID of each chunk memory. Use this tool when a search result points to a document and you need more than the matched passages.",
+        inputSchema: memoryDocumentShape,
+      },
+      async ({ documentId }: { documentId: string }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+          const document = await db.getDocument(documentId, userId);
+
+          if (!document) {
+            return this.errorResult("Document not found.");
+          }
+
+          const chunks = await db.getDocumentChunks(documentId, userId);
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `"${document.title}" (ID: ${document.id}, ${document.chunk_count} chunks: ${chunks.map(c => c.memoryId).join(", ")})\n\n${document.content}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error getting document:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to get document.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_document_list",
+      {
+        description:
+          "List stored documents, newest first, with their IDs and chunk counts.",
+        inputSchema: memoryDocumentListShape,
+      },
+      async ({ limit }: { limit?: number }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+          const documents = await db.listDocuments(userId, limit);
+
+          const text = documents.length
+            ? documents
+                .map((d, i) => `${i + 1}. "${d.title}" (ID: ${d.id}, ${d.chunk_count} chunks, added ${new Date(d.created_at).toISOString()})`)
+                .join("\n")
+            : "No documents stored.";
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error listing documents:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to list documents.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_document_delete",
+      {
+        description:
+          "Delete a stored document. Its chunk memories move to the trash with it.",
+        inputSchema: memoryDocumentShape,
+      },
+      async ({ documentId }: { documentId: string }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+          const deleted = await db.deleteDocument(documentId, userId);
+
+          if (!deleted) {
+            return this.errorResult("Document not found.");
+          }
+
+          await dispatchOutbox(userId, this.env);
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Document ${documentId} deleted; its chunks were moved to the trash.`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error deleting document:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to delete document.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       KNOWLEDGE GRAPH TOOLS
+    ===================================== */
+
+    server.registerTool(
+      "memory_entity_lookup",
+      {
+        description:
+          "Find people, places, organizations and other entities in the user's knowledge graph by name. The graph is built automatically from every stored memory: entities are de-duplicated by name, and the relations memories state between them (works_with, lives_in, ...) are kept. Returns each match with its type, how many memories mention it, and its ID for memory_entity_memories and memory_entity_neighbours.",
+        inputSchema: memoryEntityLookupShape,
+      },
+      async ({ query, limit }: { query: string; limit?: number }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const entities = await findEntities(userId, query, this.env, limit);
+
+          if (!entities.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "No matching entities found.",
+                },
+              ],
+            };
+          }
+
+          const formatted = entities
+            .map((e, i) => `${i + 1}. ${e.name} [${e.type}] mentioned in ${e.mentions} memories (ID: ${e.id})`)
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Found ${entities.length} entities:\n${formatted}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error looking up entities:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to look up entities.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_entity_memories",
+      {
+        description:
+          "List the memories that mention an entity, newest first. Pass the entity's ID from memory_entity_lookup, or its name. Use this tool to gather everything known about one person, place or organization.",
+        inputSchema: memoryEntityMemoriesShape,
+      },
+      async ({ entity, limit }: { entity: string; limit?: number }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const found = await resolveEntity(userId, entity, this.env);
+          if (!found) {
+            return this.errorResult("Entity not found.");
+          }
+
+          const db = await DB.getInstance(this.env);
+          const memories = await db.getEntityMemories(found.id, userId, limit);
+
+          const formatted = memories
+            .map((m, i) => `${i + 1}. [${m.tier}] ${m.content} (ID: ${m.id})`)
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `${memories.length} memories mention ${found.name} [${found.type}]:\n${formatted}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error listing entity memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to list entity memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_entity_neighbours",
+      {
+        description:
+          "Walk the knowledge graph out from an entity to find related entities, e.g. who works with Alice (relation works_with) or where her colleagues live (depth 2). Relations are followed in both directions; each result names the relation, the entity it leads to and the memory that stated it. Pass the entity's ID from memory_entity_lookup, or its name.",
+        inputSchema: memoryEntityNeighboursShape,
+      },
+      async ({ entity, relation, depth }: { entity: string; relation?: string; depth?: number }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const found = await resolveEntity(userId, entity, this.env);
+          if (!found) {
+            return this.errorResult("Entity not found.");
+          }
+
+          const steps = await traverseNeighbours(found, this.env, { relation, depth });
+
+          if (!steps.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `No related entities found for ${found.name}.`,
+                },
+              ],
+            };
+          }
+
+          const formatted = steps
+            .map((s) => {
+              const edge = s.direction === "out"
+                ? `${s.from.name} --${s.relation}--> ${s.entity.name}`
+                : `${s.entity.name} --${s.relation}--> ${s.from.name}`;
+              return `${"  ".repeat(s.depth - 1)}- ${edge} [${s.entity.type}] (memory: ${s.memoryId})`;
+            })
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Relations around ${found.name} [${found.type}]:\n${formatted}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error traversing entity neighbours:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to traverse entity neighbours.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       CONSOLIDATE MEMORIES TOOL
+    ===================================== */
+
+    server.registerTool(
+      "memory_consolidate",
+      {
+        description:
+          "Promote recurring short-term memories into durable long-term memories. Use this tool when the user has accumulated many overlapping short-term facts (e.g., the same preference noted across several sessions). Short-term memories are clustered by semantic similarity, each cluster is merged by AI into one canonical long-term memory, and the merged short-term sources move to the trash, superseded by it. Use dryRun=true to preview the merges without changing anything.",
+        inputSchema: memoryConsolidateShape,
+      },
+      async ({ minClusterSize, dryRun }: { minClusterSize?: number; dryRun?: boolean }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "ai");
+          if (denied) return denied;
+
+          const result = await consolidateMemories(userId, this.env, { minClusterSize, dryRun });
+
+          if (!result.clusters.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "No recurring short-term memories to consolidate.",
+                },
+              ],
+            };
+          }
+
+          const formatted = result.clusters
+            .map((c, i) => `${i + 1}. ${c.content} (from ${c.sourceIds.length} memories${c.memoryId ? `, ID: ${c.memoryId}` : ""})`)
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: dryRun
+                  ? `Would consolidate ${result.clusters.length} clusters:\n${formatted}`
+                  : `Consolidated ${result.retired} short-term memories into ${result.promoted} long-term memories:\n${formatted}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error consolidating memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to consolidate memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       TAG MEMORY TOOL
+    ===================================== */
+
+    server.registerTool(
+      "memory_tag_add",
+      {
+        description:
+          "Add one or more tags to an existing memory. Use this tool to group memories into collections (e.g., a project, a person, a topic) so they can later be listed, searched or summarized together. Tags are case-insensitive. Obtain the memory ID from memory_list or memory_search first.",
+        inputSchema: {
+          memoryId: z.string().describe("ID of the memory to tag"),
+          ...memoryTagsShape,
+        },
+      },
+      async ({ memoryId, tags }: { memoryId: string; tags: string[] }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+
+          const memory = await db.getMemoryById(memoryId, userId);
+          if (!memory) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "Memory not found.",
+                },
+              ],
+            };
+          }
+
+          // The vector's tags are rewritten by the indexing queue
+          await db.addTags(memoryId, userId, tags);
+          const current = await db.getTags(memoryId);
+          await dispatchOutbox(userId, this.env);
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Memory tags: ${current.join(", ")}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error tagging memory:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to tag memory.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       UNTAG MEMORY TOOL
+    ===================================== */
+
+    server.registerTool(
+      "memory_tag_remove",
+      {
+        description:
+          "Remove one or more tags from an existing memory. Use this tool when a memory no longer belongs to a collection. The memory itself is not deleted.",
+        inputSchema: {
+          memoryId: z.string().describe("ID of the memory to untag"),
+          ...memoryTagsShape,
+        },
+      },
+      async ({ memoryId, tags }: { memoryId: string; tags: string[] }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+
+          const memory = await db.getMemoryById(memoryId, userId);
+          if (!memory) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "Memory not found.",
+                },
+              ],
+            };
+          }
+
+          // The vector's tags are rewritten by the indexing queue
+          await db.removeTags(memoryId, userId, tags);
+          const current = await db.getTags(memoryId);
+          await dispatchOutbox(userId, this.env);
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: current.length ? `Memory tags: ${current.join(", ")}` : "Memory has no tags.",
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error untagging memory:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to untag memory.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       LIST TAGS TOOL
+    ===================================== */
+
+    server.registerTool(
+      "memory_tag_list",
+      {
+        description:
+          "List every tag in use together with how many memories carry it. Use this tool to discover which collections exist before filtering memory_list, memory_search or memory_summarize by tag.",
+        inputSchema: {},
+      },
+      async () => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+          const tags = await db.listTags(userId);
+
+          if (!tags.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "No tags found.",
+                },
+              ],
+            };
+          }
+
+          const formatted = tags
+            .map((t) => `- ${t.tag} (${t.count})`)
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Found ${tags.length} tags:\n${formatted}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error listing tags:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to list tags.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_settings",
+      {
+        description:
+          "View or tune how memory behaves for this user: duplicate detection, search threshold and the ranking weights for recency, importance and access. Call without arguments to see the current settings. Pass settings to change only those fields; pass reset to go back to the defaults.",
+        inputSchema: memorySettingsShape,
+      },
+      async ({ settings, reset }: { settings?: MemoryConfigOverrides; reset?: boolean }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const changing = reset || settings !== undefined;
+          const denied = await this.authorize(changing ? "write" : "read", changing ? "write" : "read");
+          if (denied) return denied;
+
+          let overrides = reset ? {} : await getMemoryConfigOverrides(userId, this.env);
+
+          if (changing) {
+            // Unlike PUT /settings, the tool merges into the current overrides
+            overrides = {
+              ...overrides,
+              ...settings,
+              ...((overrides.tierWeights || settings?.tierWeights) && {
+                tierWeights: { ...overrides.tierWeights, ...settings?.tierWeights },
+              }),
+            };
+            await saveMemoryConfigOverrides(userId, overrides, this.env);
+          }
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({ overrides, config: applyOverrides(overrides) }, null, 2),
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error updating settings:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to update settings.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_reconcile",
+      {
+        description:
+          "Check that the memory database and the search index agree, and optionally fix them. Reports memories that are missing from search, search entries whose memory no longer exists, and search entries with outdated content. Use repair=true to re-index and clean up. Large accounts are checked in parts: pass the returned cursor to continue. Requires the admin scope.",
+        inputSchema: memoryReconcileShape,
+      },
+      async ({ repair, cursor }: { repair?: boolean; cursor?: string }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("admin", "ai");
+          if (denied) return denied;
+
+          const report = await reconcileMemories(userId, this.env, { repair, cursor });
+
+          const lines = [
+            `Checked ${report.checked} memories.`,
+            `Missing from index: ${report.missingVectors.length}${listIds(report.missingVectors)}`,
+            `Orphaned index entries: ${report.orphanVectors.length}${listIds(report.orphanVectors)}`,
+            `Stale index entries: ${report.staleVectors.length}${listIds(report.staleVectors)}`,
+          ];
+
+          if (report.repaired) {
+            lines.push(`Repaired: ${report.repaired.reindexed} re-indexed, ${report.repaired.deleted} deleted.`);
+          }
+          if (report.nextCursor) {
+            lines.push(`Not all memories were checked; continue with cursor: ${report.nextCursor}`);
+          }
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: lines.join("\n"),
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof InvalidCursorError) {
+            return this.errorResult(error.message);
+          }
+          console.error("Error reconciling memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to reconcile memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_history",
+      {
+        description:
+          "Show every earlier version of a memory, oldest first, with who changed it, when, and a word diff against the previous version ([-removed-] {+added+}). Use this tool to check how a memory changed or to find the version number to pass to memory_revert.",
+        inputSchema: {
+          memoryId: z.string().describe("ID of the memory"),
+        },
+      },
+      async ({ memoryId }: { memoryId: string }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+
+          const memory = await db.getMemoryById(memoryId, userId);
+          if (!memory) {
+            return this.errorResult("Memory not found.");
+          }
+
+          const history = buildHistory(memory, await db.getMemoryVersions(memoryId, userId));
+
+          const formatted = history
+            .map((v) => {
+              const date = new Date(v.updatedAt).toISOString();
+              const label = `v${v.version}${v.current ? " (current)" : ""} ${date}${v.actor ? ` by ${v.actor}` : ""}`;
+              return v.diff ? `${label}\n   ${v.content}\n   diff: ${v.diff}` : `${label}\n   ${v.content}`;
+            })
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `${history.length} versions:\n${formatted}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error reading memory history:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to read memory history.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_revert",
+      {
+        description:
+          "Restore an earlier version of a memory. The current content is kept in the history as a new version, so a revert can itself be undone. The restored content is re-embedded for search. Get version numbers from memory_history.",
+        inputSchema: {
+          memoryId: z.string().describe("ID of the memory"),
+          ...memoryRevertShape,
+        },
+      },
+      async ({ memoryId, version }: { memoryId: string; version: number }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+
+          const memory = await db.getMemoryById(memoryId, userId);
+          if (!memory) {
+            return this.errorResult("Memory not found.");
+          }
+
+          const target = await db.getMemoryVersion(memoryId, userId, version);
+          if (!target) {
+            return this.errorResult(`Version ${version} is not an earlier version of this memory. Use memory_history to list them.`);
+          }
+
+          await db.updateMemory(memoryId, userId, target.content, this.actor());
+          await dispatchOutbox(userId, this.env);
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Reverted memory ${memoryId} to version ${version}: ${target.content}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error reverting memory:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to revert memory.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       TRASH TOOLS
+    ===================================== */
+
+    server.registerTool(
+      "memory_trash",
+      {
+        description:
+          "List memories in the trash, most recently deleted first. Deleted and cleared memories stay here until they are purged after the retention window, and can be brought back with memory_restore.",
+        inputSchema: memoryTrashShape,
+      },
+      async ({ limit }: { limit?: number }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+          const memories = await db.getTrashedMemories(userId, limit ?? 50);
+
+          if (!memories.length) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "Trash is empty.",
+                },
+              ],
+            };
+          }
+
+          const retention = trashRetentionMs(this.env);
+          const formatted = memories
+            .map((m, i) => {
+              const purgeDate = new Date((m.deleted_at ?? 0) + retention).toISOString().split("T")[0];
+              return `${i + 1}. [${m.tier}] ${m.content.substring(0, 100)}${m.content.length > 100 ? "..." : ""} (purged ${purgeDate}, ID: ${m.id})`;
+            })
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Found ${memories.length} memories in trash:\n${formatted}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error listing trash:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to list trash.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_restore",
+      {
+        description:
+          "Restore a deleted memory from the trash, or the whole trash when no memoryId is given. Restored memories count against the quota again and are re-embedded for search. Get IDs from memory_trash.",
+        inputSchema: {
+          memoryId: z.string().optional().describe("ID of the trashed memory (omit to restore everything in the trash)"),
+        },
+      },
+      async ({ memoryId }: { memoryId?: string }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "write");
+          if (denied) return denied;
+
+          const db = await DB.getInstance(this.env);
+
+          const restored = await db.restoreMemories(userId, memoryId);
+          if (!restored) {
+            return this.errorResult(memoryId ? "Memory not found in trash." : "Trash is empty.");
+          }
+          await dispatchOutbox(userId, this.env);
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: memoryId
+                  ? `Restored memory ${memoryId}.`
+                  : `Restored ${restored} memories from trash.`,
+              },
+            ],
+          };
+        } catch (error) {
+          if (error instanceof QuotaExceededError) {
+            return this.errorResult(error.message);
+          }
+          console.error("Error restoring memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to restore memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    /* =====================================
+       EXPORT / IMPORT TOOLS
+    ===================================== */
+
+    server.registerTool(
+      "memory_export",
+      {
+        description:
+          "Export all of the user's live memories with tier, importance, source, tags and timestamps. Use ndjson or json to move memories to another deployment with memory_import, or markdown for a human-readable copy grouped by tier. Trashed and expired memories are not included.",
+        inputSchema: memoryExportShape,
+      },
+      async ({ format }: { format?: TransferFormat }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("read", "read");
+          if (denied) return denied;
+
+          let text = "";
+          for await (const chunk of exportMemories(userId, format ?? "ndjson", this.env)) {
+            text += chunk;
+          }
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error exporting memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to export memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+
+    server.registerTool(
+      "memory_import",
+      {
+        description:
+          "Import memories from the output of memory_export (ndjson, json or markdown), for example to migrate them from another deployment. Each memory is validated and keeps its tier, importance, source, tags and creation time; imported memories get new IDs. Near-duplicates of existing memories are skipped unless onDuplicate is insert. Reports how many were created, skipped as duplicates or failed.",
+        inputSchema: memoryImportShape,
+      },
+      async ({ data, format, onDuplicate }: { data: string; format?: TransferFormat; onDuplicate?: ImportDuplicatePolicy }) => {
+        try {
+          const userId = this.props?.userId;
+
+          if (!userId) {
+            throw new Error("MCP props.userId missing");
+          }
+
+          const denied = await this.authorize("write", "ai");
+          if (denied) return denied;
+
+          let records;
+          try {
+            records = parseImport(data, format ?? "ndjson");
+          } catch (parseError) {
+            return this.errorResult((parseError as Error).message);
+          }
+
+          const report = await importMemories(userId, records, this.env, { policy: onDuplicate });
+
+          const errors = report.errors
+            .slice(0, 10)
+            .map((e) => `- #${e.index}: ${e.error}`)
+            .join("\n");
+
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Imported ${report.created} memories (${report.duplicates} duplicates skipped, ${report.failed} failed).${errors ? `\n${errors}` : ""}${report.errors.length > 10 ? "\n..." : ""}`,
+              },
+            ],
+          };
+        } catch (error) {
+          console.error("Error importing memories:", error);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Failed to import memories.",
+              },
+            ],
+          };
+        }
+      }
+    );
+  }
+}
+
+/* ================================
+   HELPERS
+================================ */
+
+// The chunks or full text a document search result was expanded with
+function formatDocumentHit(document: DocumentHit): string {
+  if (document.content !== undefined) return `\n   ${document.content.replace(/\n/g, "\n   ")}`;
+
+  return document.chunks
+    .map((c) => `\n   [chunk ${c.index + 1}] ${c.content.replace(/\n/g, "\n   ")}`)
+    .join("");
+}
+
+// Keeps tool output readable when a report lists hundreds of ids
+function listIds(ids: string[], max: number = 20): string {
+  if (!ids.length) return "";
+  const shown = ids.slice(0, max).join(", ");
+  return ids.length > max ? ` (${shown}, ...)` : ` (${shown})`;
 }
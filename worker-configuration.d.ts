@@ -12,6 +12,16 @@ declare namespace Cloudflare {
 		AI: Ai;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
 		RATE_LIMITER: RateLimit;
+		WRITE_RATE_LIMITER: RateLimit;
+		SEARCH_RATE_LIMITER: RateLimit;
+		AI_RATE_LIMITER: RateLimit;
+		OAUTH_KV: KVNamespace;
+		INDEX_QUEUE: Queue;
+		PUBLIC_URL: string;
+		MAX_MEMORIES_PER_USER: string;
+		SHORT_MEMORY_TTL_SECONDS: string;
+		TRASH_RETENTION_DAYS: string;
+		ADMIN_TOKEN: string;
 	}
 }
 interface Env extends Cloudflare.Env {}